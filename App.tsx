@@ -1,7 +1,254 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import CopyTextModal, { shareText } from './CopyTextModal';
+import FactsScreen from './FactsScreen';
 import GameScreen from './GameScreen';
+import LevelEditorScreen from './LevelEditorScreen';
+import LevelSelectScreen from './LevelSelectScreen';
+import TitleScreen from './TitleScreen';
+import { SubjectOption } from './dummyFacts';
+import { dailyKey } from './engine/daily';
+import { GameEventBus } from './engine/events';
+import { createBlankDraft, LevelDraft } from './engine/levelDraft';
+import { LevelValidationError } from './engine/levels';
+import { encodeTelemetry, recordTurns } from './engine/telemetry';
+import { decodeLevel } from './engine/shareCode';
+import { levelResult, starRating } from './engine/rating';
+import { decodeReplay, Replay } from './engine/replay';
+import { GameStart, GameState } from './engine/types';
+import { LEVELS, SUBJECTS } from './gameConfig';
+import appStorage from './persistence/appStorage';
+import { DailyRecord, getDailyRecord, markDailyAttempted, recordDailyResult } from './persistence/dailyRecords';
+import { FactRecords, loadFactRecords, showNextFact } from './persistence/facts';
+import { loadQuizStats, QuizOutcome, QuizStatsBySubject, recordQuizOutcome } from './persistence/quizStats';
+import { loadProgress, Progress, recordLevelCleared } from './persistence/progress';
+import { DEFAULT_SETTINGS, loadSettings, saveSettings, Settings } from './persistence/settings';
+import { clearSavedGame, isResumable, loadSavedGame, SavedGame, saveGame } from './persistence/savedGame';
+import { TelemetryBuffer } from './persistence/telemetry';
+
+// The menu screen shown when no game is running; games return to it on exit.
+type Screen = 'title' | 'levels' | 'editor' | 'facts';
 
 export default function App() {
+  const [start, setStart] = useState<GameStart | null>(null);
+  const [resume, setResume] = useState<SavedGame | undefined>(undefined);
+  const [playback, setPlayback] = useState<Replay | undefined>(undefined);
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(null);
+  const [screen, setScreen] = useState<Screen>('title');
+  // Kept here so the board survives a play test
+  const [draft, setDraft] = useState<LevelDraft>(() => createBlankDraft());
+  const [today] = useState(() => dailyKey(new Date()));
+  const [dailyRecord, setDailyRecord] = useState<DailyRecord | null>(null);
+  const [progress, setProgress] = useState<Progress>({ unlocked: 1, levels: {} });
+  // Sound, haptics and effects subscribe here; one bus outlives every game
+  const [gameEvents] = useState(() => new GameEventBus());
+  const [session] = useState(() => Date.now().toString(36));
+  const [telemetry] = useState(() => new TelemetryBuffer(appStorage));
+
+  // Logs every turn of live play for balancing. Watched replays and play tests
+  // from the editor are left out. Turns are written in batches, and whatever is
+  // pending when play stops or the app leaves the foreground. The buffer reports
+  // and drops a batch it can't write, so its flushes never reject.
+  useEffect(() => {
+    if (!start || playback || screen === 'editor') return;
+    const stopRecording = recordTurns(gameEvents, session, telemetry.add);
+    const appState = AppState.addEventListener('change', next => {
+      if (next !== 'active') telemetry.flush();
+    });
+    return () => {
+      stopRecording();
+      appState.remove();
+      telemetry.flush();
+    };
+  }, [start, playback, screen]);
+
+  // Shown for copying when the share sheet isn't available
+  const [unsharedTelemetry, setUnsharedTelemetry] = useState<string | null>(null);
+
+  const exportTelemetry = useCallback(() => {
+    telemetry.load()
+      .then(async records => {
+        const text = encodeTelemetry(records);
+        if (!(await shareText(text))) setUnsharedTelemetry(text);
+      })
+      .catch(err => console.error('telemetry export failed:', err));
+  }, []);
+
+  useEffect(() => {
+    getDailyRecord(appStorage, today).then(setDailyRecord);
+  }, [today]);
+
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+  const [factRecords, setFactRecords] = useState<FactRecords>({});
+  const [quizStats, setQuizStats] = useState<QuizStatsBySubject>({});
+  const subjects = SUBJECTS;
+
+  useEffect(() => {
+    loadProgress(appStorage).then(setProgress);
+    loadSettings(appStorage).then(setSettings);
+  }, []);
+
+  const updateSettings = useCallback((next: Settings) => {
+    setSettings(next);
+    saveSettings(appStorage, next);
+  }, []);
+
+  useEffect(() => {
+    if (!start) loadSavedGame(appStorage).then(setSavedGame);
+  }, [start]);
+
+  const play = useCallback((next: GameStart, saved?: SavedGame) => {
+    setResume(saved);
+    setPlayback(undefined);
+    setStart(next);
+  }, []);
+
+  const continueGame = useCallback(() => {
+    if (savedGame) play(savedGame.start, savedGame);
+  }, [savedGame, play]);
+
+  const watch = useCallback((replay: Replay) => {
+    setResume(undefined);
+    setPlayback(replay);
+    setStart(replay.start);
+  }, []);
+
+  // One save slot: the latest turn boundary of whatever is being played, kept
+  // through a campaign level's Level Complete dialog until the next level
+  // starts. Play tests from the editor are never saved.
+  const onCheckpoint = useCallback((
+    current: GameStart,
+    state: GameState,
+    replay: Replay | null,
+    subjectId: string | null,
+    bonusBalls: number | null
+  ) => {
+    if (isResumable(state)) {
+      saveGame(appStorage, current, state, replay ?? undefined, subjectId, bonusBalls ?? undefined);
+    } else {
+      clearSavedGame(appStorage);
+    }
+  }, []);
+
+  const playDaily = useCallback(() => {
+    markDailyAttempted(appStorage, today).then(setDailyRecord);
+    play({ kind: 'daily', date: today });
+  }, [today, play]);
+
+  // Accepts a level share code or a whole replay file
+  const playCode = useCallback((code: string): string | null => {
+    try {
+      if (code.trim().startsWith('{')) {
+        watch(decodeReplay(code));
+      } else {
+        play({ kind: 'custom', level: decodeLevel(code) });
+      }
+      return null;
+    } catch (err) {
+      return err instanceof LevelValidationError ? err.issues[0].message : (err as Error).message;
+    }
+  }, [play, watch]);
+
+  const onFinish = useCallback((finished: GameStart, state: GameState) => {
+    const result = levelResult(state);
+    const stars = starRating(result, state.rules);
+
+    // Campaign games carry on into later levels, so go by the state's level
+    // rather than the level the game was started from.
+    if (state.mode === 'campaign' && result.won) {
+      recordLevelCleared(appStorage, state.level, { score: result.score, turns: result.turns, stars })
+        .then(setProgress);
+      return;
+    }
+
+    if (finished.kind !== 'daily') return;
+    recordDailyResult(appStorage, finished.date, state.score, stars).then(record => {
+      if (finished.date === today) setDailyRecord(record);
+    });
+  }, [today]);
+
+  const openFacts = useCallback(() => {
+    Promise.all([loadFactRecords(appStorage), loadQuizStats(appStorage)]).then(([records, stats]) => {
+      setFactRecords(records);
+      setQuizStats(stats);
+      setScreen('facts');
+    });
+  }, []);
+
+  const nextFact = useCallback((subject: SubjectOption) => showNextFact(appStorage, subject), []);
+
+  const onQuizResult = useCallback((subjectId: string, outcome: QuizOutcome) => {
+    recordQuizOutcome(appStorage, subjectId, outcome);
+  }, []);
+
+  if (!start && screen === 'editor') {
+    return (
+      <LevelEditorScreen
+        draft={draft}
+        onChange={setDraft}
+        onPlayTest={level => play({ kind: 'custom', level })}
+        onExit={() => setScreen('title')}
+      />
+    );
+  }
+
+  if (!start && screen === 'facts') {
+    return (
+      <FactsScreen subjects={subjects} records={factRecords} quizStats={quizStats} onBack={() => setScreen('title')} />
+    );
+  }
+
+  if (!start && screen === 'levels') {
+    return (
+      <LevelSelectScreen
+        levels={LEVELS}
+        progress={progress}
+        onSelect={level => play({ kind: 'campaign', level })}
+        onEndless={() => play({ kind: 'endless', seed: Date.now() })}
+        onBack={() => setScreen('title')}
+      />
+    );
+  }
+
+  if (!start) {
+    return (
+      <>
+        <TitleScreen
+          dailyKey={today}
+          dailyRecord={dailyRecord}
+          canContinue={savedGame !== null}
+          onContinue={continueGame}
+          onPlay={() => setScreen('levels')}
+          onDaily={playDaily}
+          onEditor={() => setScreen('editor')}
+          onFacts={openFacts}
+          onPlayCode={playCode}
+          onExportTelemetry={__DEV__ ? exportTelemetry : undefined}
+        />
+        <CopyTextModal title="Telemetry" text={unsharedTelemetry} onClose={() => setUnsharedTelemetry(null)} />
+      </>
+    );
+  }
+
   return (
-    <GameScreen />
+    <GameScreen
+      key={`${playback ? 'replay' : 'play'}:${JSON.stringify(start)}`}
+      start={start}
+      resume={resume?.state}
+      resumeReplay={resume?.replay}
+      playback={playback}
+      onExit={() => setStart(null)}
+      onCheckpoint={screen === 'editor' || playback ? undefined : onCheckpoint}
+      onFinish={playback ? undefined : onFinish}
+      onWatchReplay={watch}
+      aimMode={settings.aimMode}
+      onAimModeChange={aimMode => updateSettings({ ...settings, aimMode })}
+      subjects={subjects}
+      resumeSubjectId={resume?.subjectId}
+      resumeBonusBalls={resume?.bonusBalls}
+      onNextFact={nextFact}
+      onQuizResult={playback ? undefined : onQuizResult}
+      events={gameEvents}
+    />
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,45 @@
+import React from 'react';
+import { StyleSheet } from 'react-native';
+import Animated, { SharedValue, useAnimatedStyle } from 'react-native-reanimated';
+
+interface BallLayerProps {
+  count: number;
+  // [x0, y0, x1, y1, ...], written by the frame loop
+  positions: SharedValue<number[]>;
+  radius: number;
+}
+
+// Ball positions change every frame, so they never go through React state: the
+// frame loop writes them to a shared value and each ball reads its own pair on
+// the UI thread. React only renders this layer again when the number of balls
+// changes.
+const BallDot: React.FC<{ index: number; positions: SharedValue<number[]>; radius: number }> = ({ index, positions, radius }) => {
+  const style = useAnimatedStyle(() => {
+    const x = positions.value[index * 2];
+    const y = positions.value[index * 2 + 1];
+    // A ball the frame loop hasn't placed yet stays hidden
+    if (x === undefined || y === undefined) return { opacity: 0, transform: [{ translateX: 0 }, { translateY: 0 }] };
+    return { opacity: 1, transform: [{ translateX: x - radius }, { translateY: y - radius }] };
+  });
+
+  return <Animated.View style={[styles.ball, { width: radius * 2, height: radius * 2, borderRadius: radius }, style]} />;
+};
+
+const BallLayer: React.FC<BallLayerProps> = ({ count, positions, radius }) => (
+  <>
+    {Array.from({ length: count }, (_, i) => (
+      <BallDot key={i} index={i} positions={positions} radius={radius} />
+    ))}
+  </>
+);
+
+const styles = StyleSheet.create({
+  ball: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    backgroundColor: '#000000',
+  },
+});
+
+export default React.memo(BallLayer);
@@ -0,0 +1,111 @@
+import React from 'react';
+import { StyleSheet, Text, View, ViewStyle } from 'react-native';
+import { getPowerUp } from './engine/powerUps';
+import { Brick } from './engine/types';
+
+// Triangles are drawn with the border trick: a zero-size view whose two borders
+// meet along the diagonal, one colored and one transparent. The colored border
+// is the side holding the right angle (see engine/shapes.ts for the naming).
+function triangleStyle(brick: Brick): ViewStyle | null {
+  const { width, height, color } = brick;
+  const base: ViewStyle = { position: 'absolute', top: 0, left: 0, width: 0, height: 0, borderStyle: 'solid' };
+
+  switch (brick.shape) {
+    case 'tr1':
+      return { ...base, borderTopWidth: height, borderRightWidth: width, borderTopColor: color, borderRightColor: 'transparent' };
+    case 'tr2':
+      return { ...base, borderTopWidth: height, borderLeftWidth: width, borderTopColor: color, borderLeftColor: 'transparent' };
+    case 'tr3':
+      return { ...base, borderBottomWidth: height, borderRightWidth: width, borderBottomColor: color, borderRightColor: 'transparent' };
+    case 'tr4':
+      return { ...base, borderBottomWidth: height, borderLeftWidth: width, borderBottomColor: color, borderLeftColor: 'transparent' };
+    default:
+      return null;
+  }
+}
+
+// Where the hit count sits: the centroid for triangles, the middle otherwise.
+function labelCenter(brick: Brick): { x: number; y: number } {
+  const { width: w, height: h } = brick;
+  switch (brick.shape) {
+    case 'tr1':
+      return { x: w / 3, y: h / 3 };
+    case 'tr2':
+      return { x: (2 * w) / 3, y: h / 3 };
+    case 'tr3':
+      return { x: w / 3, y: (2 * h) / 3 };
+    case 'tr4':
+      return { x: (2 * w) / 3, y: (2 * h) / 3 };
+    default:
+      return { x: w / 2, y: h / 2 };
+  }
+}
+
+const BrickView: React.FC<{ brick: Brick }> = ({ brick }) => {
+  if (!brick.visible) return null;
+
+  const { width, height } = brick;
+  const triangle = triangleStyle(brick);
+  const center = labelCenter(brick);
+  const diameter = Math.min(width, height);
+  const powerUp = getPowerUp(brick.powerUp);
+
+  return (
+    <View style={[styles.cell, { left: brick.x, top: brick.y, width, height }]}>
+      {triangle ? (
+        <View style={triangle} />
+      ) : brick.shape === 'circle' ? (
+        <View style={{
+          position: 'absolute',
+          left: (width - diameter) / 2,
+          top: (height - diameter) / 2,
+          width: diameter,
+          height: diameter,
+          borderRadius: diameter / 2,
+          backgroundColor: brick.color
+        }} />
+      ) : (
+        <View style={[StyleSheet.absoluteFill, { backgroundColor: brick.color }]} />
+      )}
+      <View style={[styles.label, { left: center.x - width / 2, top: center.y - height / 2, width, height }]}>
+        {/* Pass-through power-ups take no hits, so only their glyph is shown */}
+        {!brick.passThrough && <Text style={styles.brickText}>{brick.hits}</Text>}
+        {powerUp && <Text style={brick.passThrough ? styles.brickText : styles.powerUpText}>{powerUp.label}</Text>}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  cell: {
+    position: 'absolute',
+  },
+  label: {
+    position: 'absolute',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  brickText: {
+    color: '#e8e8e8',
+    fontWeight: 'bold',
+    fontSize: 10,
+    fontFamily: 'monospace',
+  },
+  powerUpText: {
+    color: '#e8e8e8',
+    fontSize: 7,
+    fontFamily: 'monospace',
+  },
+});
+
+// Snapshots of the board copy every brick, so compare what is drawn rather than
+// the object
+function sameBrick(prev: { brick: Brick }, next: { brick: Brick }) {
+  const a = prev.brick;
+  const b = next.brick;
+  return a.visible === b.visible && a.hits === b.hits && a.x === b.x && a.y === b.y &&
+    a.width === b.width && a.height === b.height && a.color === b.color &&
+    a.shape === b.shape && a.powerUp === b.powerUp && a.passThrough === b.passThrough;
+}
+
+export default React.memo(BrickView, sameBrick);
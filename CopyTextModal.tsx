@@ -0,0 +1,97 @@
+import React from 'react';
+import { Modal, ScrollView, Share, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+// Opens the share sheet and resolves to whether it could. On the web it fails
+// wherever the browser has no navigator.share, so callers fall back to showing
+// the text in a CopyTextModal instead.
+export async function shareText(message: string): Promise<boolean> {
+  try {
+    await Share.share({ message });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export interface CopyTextModalProps {
+  title: string;
+  // Hidden while null
+  text: string | null;
+  onClose: () => void;
+}
+
+// Shows text that couldn't be shared so it can be selected and copied by hand
+const CopyTextModal: React.FC<CopyTextModalProps> = ({ title, text, onClose }) => (
+  <Modal transparent={true} visible={text !== null} animationType="fade">
+    <View style={styles.modalContainer}>
+      <View style={styles.modalContent}>
+        <Text style={styles.modalTitle}>{title}</Text>
+        <Text style={styles.hintText}>Sharing isn't available here. Select the text to copy it.</Text>
+        <ScrollView style={styles.textBox}>
+          <Text selectable style={styles.copyText}>{text}</Text>
+        </ScrollView>
+        <TouchableOpacity style={styles.modalButton} onPress={onClose}>
+          <Text style={styles.modalButtonText}>Close</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  </Modal>
+);
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.9)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#e8e8e8',
+    padding: 20,
+    borderRadius: 0,
+    alignItems: 'center',
+    borderWidth: 4,
+    borderColor: '#000000',
+    maxHeight: '80%',
+    width: '90%',
+  },
+  modalTitle: {
+    color: '#000000',
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 15,
+    fontFamily: 'monospace',
+  },
+  hintText: {
+    color: '#404040',
+    fontSize: 12,
+    textAlign: 'center',
+    fontFamily: 'monospace',
+  },
+  textBox: {
+    alignSelf: 'stretch',
+    marginTop: 10,
+    marginBottom: 10,
+  },
+  copyText: {
+    color: '#000000',
+    fontSize: 10,
+    fontFamily: 'monospace',
+  },
+  modalButton: {
+    backgroundColor: '#000000',
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    borderRadius: 0,
+    marginTop: 10,
+    borderWidth: 0,
+  },
+  modalButtonText: {
+    color: '#e8e8e8',
+    fontSize: 14,
+    fontWeight: 'bold',
+    fontFamily: 'monospace',
+  },
+});
+
+export default CopyTextModal;
@@ -0,0 +1,129 @@
+import React from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { SubjectOption } from './dummyFacts';
+import { HEADER_HEIGHT } from './gameConfig';
+import { FactRecords } from './persistence/facts';
+import { QuizStatsBySubject } from './persistence/quizStats';
+
+interface FactsScreenProps {
+  subjects: SubjectOption[];
+  records: FactRecords;
+  quizStats: QuizStatsBySubject;
+  onBack: () => void;
+}
+
+// Every trivia fact the player has come across, grouped by subject, with how
+// they have done in that subject's bonus rounds
+const FactsScreen: React.FC<FactsScreenProps> = ({ subjects, records, quizStats, onBack }) => (
+  <View style={styles.container}>
+    {/* Header */}
+    <View style={styles.header}>
+      <TouchableOpacity style={styles.controlButton} onPress={onBack}>
+        <Text style={styles.controlButtonText}>BACK</Text>
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>FACTS</Text>
+      <View style={styles.headerSpacer} />
+    </View>
+
+    <ScrollView contentContainerStyle={styles.content}>
+      {subjects.map(subject => {
+        const seen = records[subject.id]?.seen.filter(fact => subject.dummyFacts.includes(fact)) ?? [];
+        const stats = quizStats[subject.id];
+        return (
+          <View key={subject.id} style={styles.subject}>
+            <Text style={styles.subjectTitle}>
+              {subject.name.toUpperCase()} · {seen.length}/{subject.dummyFacts.length}
+            </Text>
+            {stats && stats.answered + stats.skipped > 0 && (
+              <Text style={styles.statsText}>
+                Quiz: {stats.correct}/{stats.answered} correct
+                {stats.answered > 0 ? ` (${Math.round((stats.correct / stats.answered) * 100)}%)` : ''}
+                {stats.skipped > 0 ? `, ${stats.skipped} skipped` : ''}
+              </Text>
+            )}
+            {seen.length === 0 && <Text style={styles.emptyText}>Pick this subject in a run to collect facts.</Text>}
+            {seen.map(fact => (
+              <Text key={fact} style={styles.factText}>{fact}</Text>
+            ))}
+          </View>
+        );
+      })}
+    </ScrollView>
+  </View>
+);
+
+// ----------------- STYLES -----------------
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#e8e8e8',
+  },
+  header: {
+    height: HEADER_HEIGHT,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    backgroundColor: '#000000',
+  },
+  headerTitle: {
+    color: '#e8e8e8',
+    fontSize: 16,
+    fontWeight: 'bold',
+    fontFamily: 'monospace',
+  },
+  headerSpacer: {
+    minWidth: 70,
+  },
+  controlButton: {
+    backgroundColor: '#e8e8e8',
+    paddingHorizontal: 15,
+    paddingVertical: 8,
+    borderRadius: 0,
+    borderWidth: 2,
+    borderColor: '#000000',
+    minWidth: 70,
+    alignItems: 'center',
+  },
+  controlButtonText: {
+    color: '#000000',
+    fontSize: 12,
+    fontWeight: 'bold',
+    fontFamily: 'monospace',
+  },
+  content: {
+    padding: 15,
+  },
+  subject: {
+    marginBottom: 20,
+  },
+  subjectTitle: {
+    color: '#000000',
+    fontSize: 14,
+    fontWeight: 'bold',
+    fontFamily: 'monospace',
+    marginBottom: 8,
+  },
+  statsText: {
+    color: '#404040',
+    fontSize: 12,
+    fontFamily: 'monospace',
+    marginBottom: 8,
+  },
+  emptyText: {
+    color: '#808080',
+    fontSize: 12,
+    fontFamily: 'monospace',
+  },
+  factText: {
+    color: '#000000',
+    fontSize: 12,
+    fontFamily: 'monospace',
+    marginBottom: 10,
+    paddingLeft: 8,
+    borderLeftWidth: 2,
+    borderLeftColor: '#404040',
+  },
+});
+
+export default FactsScreen;
@@ -1,160 +1,184 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { StyleSheet, View, Dimensions, Text, TouchableOpacity, Modal, Animated as RNAnimated } from 'react-native';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, Modal, Platform } from 'react-native';
 import { PanGestureHandler, GestureHandlerRootView } from 'react-native-gesture-handler';
 import { useAnimatedStyle, useSharedValue } from 'react-native-reanimated';
-import levelsData from './levels.json';
-
-// ----------------- CONSTANTS & TYPES -----------------
-const DESIGN_WIDTH = 320;
-const DESIGN_HEIGHT = 480;
-
-const { width: deviceWidth, height: deviceHeight } = Dimensions.get('window');
-
-// Maintain aspect ratio for the game area
-let gameAreaWidth = deviceWidth;
-let gameAreaHeight = (deviceWidth / DESIGN_WIDTH) * DESIGN_HEIGHT;
-if (gameAreaHeight > deviceHeight) {
-  gameAreaHeight = deviceHeight;
-  gameAreaWidth = (deviceHeight / DESIGN_HEIGHT) * DESIGN_WIDTH;
+import { AimMode, AIM_MODES, aimAngle as pointerAimAngle, clampLaunchAngle } from './engine/aiming';
+import { dailySummary } from './engine/daily';
+import { advance, canLaunch as canLaunchNow, cloneState, continueCampaign, startGame } from './engine/engine';
+import { GameEventBus } from './engine/events';
+import { buildQuiz, Quiz, QUIZ_BONUS_BALLS } from './engine/quiz';
+import { formatStars, levelResult, starRating } from './engine/rating';
+import {
+  advanceReplay, createReplay, encodeReplay, finishReplay, recordNextLevel, recordStep, Replay, ReplayCursor, ReplayError,
+  startReplay
+} from './engine/replay';
+import { nextSpeed, simulationSpeed, Speed } from './engine/speed';
+import { dotsAlong, previewPath } from './engine/trajectory';
+import { Ball, GameStart, GameState, StepInput } from './engine/types';
+import BallLayer from './BallLayer';
+import BrickView from './BrickView';
+import CopyTextModal, { shareText } from './CopyTextModal';
+import ScoreBreakdownView from './ScoreBreakdownView';
+import { SubjectOption } from './dummyFacts';
+import { QuizOutcome } from './persistence/quizStats';
+import { BOTTOM_CONTROLS_HEIGHT, CONFIG, HEADER_HEIGHT, LEVELS, SCREEN_HEIGHT, SCREEN_WIDTH } from './gameConfig';
+
+// ----------------- CONSTANTS -----------------
+const BALL_RADIUS = CONFIG.ballRadius;
+const LAUNCH_Y = CONFIG.launchY;
+const PREVIEW_DOT_SPACING = 12 * CONFIG.scale;
+const PREVIEW_DOT_SIZE = 3 * CONFIG.scale;
+
+export interface GameScreenProps {
+  start: GameStart;
+  onExit: () => void;
+  // Saved game to pick up from instead of starting fresh, and its recording so far
+  resume?: GameState;
+  resumeReplay?: Replay;
+  // Plays this recording back instead of taking input
+  playback?: Replay;
+  // Called at every turn boundary, including the start of each level, and when
+  // the bonus round after a won level is answered
+  onCheckpoint?: (
+    start: GameStart,
+    state: GameState,
+    replay: Replay | null,
+    subjectId: string | null,
+    bonusBalls: number | null
+  ) => void;
+  // Called once when the level is won or lost
+  onFinish?: (start: GameStart, state: GameState) => void;
+  onWatchReplay?: (replay: Replay) => void;
+  aimMode: AimMode;
+  onAimModeChange: (mode: AimMode) => void;
+  // Trivia subjects offered when a run starts; a resumed run keeps its pick
+  subjects: SubjectOption[];
+  resumeSubjectId?: string | null;
+  // Bonus round result a resumed won level was saved with, so it isn't asked again
+  resumeBonusBalls?: number;
+  // Draws the fact shown when a level ends
+  onNextFact?: (subject: SubjectOption) => Promise<string | null>;
+  // Called when a bonus round question is answered or skipped
+  onQuizResult?: (subjectId: string, outcome: QuizOutcome) => void;
+  // Receives everything that happens in play, for sound, haptics and effects
+  events?: GameEventBus;
 }
 
-// Scale factor based on our design
-const scaleX = gameAreaWidth / DESIGN_WIDTH;
-const scaleY = gameAreaHeight / DESIGN_HEIGHT;
-// If you want uniform scaling, choose the smaller one so everything fits.
-const scale = Math.min(scaleX, scaleY);
-
-// Define some scaled constants based on the design space
-const BALL_RADIUS = 4 * scale;
-const BALL_SPEED_PER_SEC = 600 * scale;
-const LAUNCH_DELAY = 150; // ms
-const BRICK_MARGIN = 2 * scale;
-const HEADER_HEIGHT = 60 * scale;
-const BOTTOM_CONTROLS_HEIGHT = 60 * scale;
-const LAUNCH_Y = deviceHeight - BOTTOM_CONTROLS_HEIGHT - (BALL_RADIUS * 2) - 100;
-const INITIAL_LAUNCH_X = deviceWidth / 2;
-const BRICK_DROP_AMOUNT = 40 * scale;
-const LOSS_LINE = deviceHeight - BOTTOM_CONTROLS_HEIGHT - (deviceHeight * 0.3);
-
-interface Ball {
-  id: number;
-  x: number;
-  y: number;
-  dx: number;
-  dy: number;
-  launched: boolean;
+function createFromStart(start: GameStart): GameState {
+  return startGame(CONFIG, LEVELS, start);
 }
 
-interface Brick {
-  id: number;
-  shape: 'sqr' | 'tr1' | 'tr2' | 'tr3' | 'tr4' | 'circle' | 'bla';
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  visible: boolean;
-  hits: number;
-  color: string;
-  points: number;
-  givesBall?: boolean;
+function ballCoordinates(balls: Ball[]): number[] {
+  const out = new Array<number>(balls.length * 2);
+  balls.forEach((ball, i) => {
+    out[i * 2] = ball.x;
+    out[i * 2 + 1] = ball.y;
+  });
+  return out;
 }
 
-interface GameState {
-  level: number;
-  gameStatus: 'playing' | 'won' | 'lost';
+// Whether the board on screen is out of date. A new level starts its revision
+// count over, so a level change always counts.
+function needsRedraw(shown: GameState, live: GameState): boolean {
+  return live.revision !== shown.revision || live.level !== shown.level || live.mode !== shown.mode;
 }
 
-const BallBlasterGame: React.FC = () => {
+const BallBlasterGame: React.FC<GameScreenProps> = ({
+  start, resume, resumeReplay, playback, onExit, onCheckpoint, onFinish, onWatchReplay, aimMode, onAimModeChange,
+  subjects, resumeSubjectId, resumeBonusBalls, onNextFact, onQuizResult, events
+}) => {
   const gameLoop = useRef<number | null>(null);
   const lastFrameTime = useRef<number>(0);
 
-  const isLaunching = useRef<boolean>(false);
-  const launchQueue = useRef<Ball[]>([]);
-  const lastLaunchTime = useRef<number>(0);
-  const lastBallX = useRef<number>(INITIAL_LAUNCH_X);
-
-  const [balls, setBalls] = useState<Ball[]>([]);
-  const [bricks, setBricks] = useState<Brick[]>([]);
-  const [score, setScore] = useState(0);
-  const [ballCount, setBallCount] = useState(10);
-  const [isGameActive, setIsGameActive] = useState(true);
-  const [gameState, setGameState] = useState<GameState>({ level: 1, gameStatus: 'playing' });
-
-  const touchActive = useRef<boolean>(false);
+  // When watching a replay the cursor drives the game instead of player input
+  const playbackRef = useRef<ReplayCursor | null>(playback ? startReplay(playback, LEVELS) : null);
+  // Why playback stopped, if the recording went out of sync with the game
+  const [playbackError, setPlaybackError] = useState<string | null>(null);
+
+  // The frame loop advances its own copy of the engine state in place. React
+  // state holds a snapshot of it that is only replaced when the board changes
+  // (see GameState.revision); ball positions go to the screen through a shared
+  // value instead, so moving balls never re-render anything.
+  const initialState = playbackRef.current?.state ?? resume ?? createFromStart(start);
+  const gameRef = useRef<GameState>(cloneState(initialState));
+  const ballPositions = useSharedValue<number[]>(ballCoordinates(initialState.balls));
+  const pendingInput = useRef<StepInput>({});
+  // Every input that changed the game, for sharing and watching back. A game
+  // resumed from a save without a recording can't be replayed, so it has none.
+  const replayRef = useRef<Replay | null>(
+    playback ? null : resume ? resumeReplay ?? null : createReplay(SCREEN_WIDTH, SCREEN_HEIGHT, start)
+  );
+  const [game, setGame] = useState<GameState>(initialState);
+  const shownRef = useRef<GameState>(initialState);
+
+  // Fast-forward setting and automatic speed-up, read by the frame loop
+  const [speed, setSpeed] = useState<Speed>(1);
+  const [autoSpeed, setAutoSpeed] = useState(true);
+  const speedRef = useRef({ chosen: speed, auto: autoSpeed });
+  speedRef.current = { chosen: speed, auto: autoSpeed };
+  // Speed the simulation is actually running at, for the speed button
+  const [runningSpeed, setRunningSpeed] = useState<Speed>(1);
+  const runningSpeedRef = useRef<Speed>(1);
+
+  // Current aim, or null when not aiming or the aim was cancelled. The ref is
+  // what gesture and key handlers read; the state re-renders the preview.
+  const aimRef = useRef<number | null>(null);
   const launchAngle = useSharedValue(0);
+  const [aimAngle, setAimAngle] = useState<number | null>(null);
+  const aimModeRef = useRef(aimMode);
+  aimModeRef.current = aimMode;
 
   useEffect(() => {
-    initializeGame(1);
+    startGameLoop();
     return () => {
       if (gameLoop.current) cancelAnimationFrame(gameLoop.current);
     };
   }, []);
 
-  const initializeGame = useCallback((level: number) => {
-    isLaunching.current = false;
-    lastTurnHadLaunch.current = false;
-    launchQueue.current = [];
-    lastFrameTime.current = 0;
-    if (gameLoop.current) {
-      cancelAnimationFrame(gameLoop.current);
-      gameLoop.current = null;
+  // Undefined until the player picks a subject (or none) for a new run
+  const [subjectId, setSubjectId] = useState<string | null | undefined>(
+    playback ? null : resume ? resumeSubjectId ?? null : undefined
+  );
+  const subject = subjects.find(option => option.id === subjectId);
+  const [fact, setFact] = useState<string | null>(null);
+  // Bonus round between campaign levels, and the option picked (or 'skipped')
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [quizPick, setQuizPick] = useState<number | 'skipped' | null>(null);
+  // Balls the bonus round earned for the next level, null until it is answered
+  const [quizBonus, setQuizBonus] = useState<number | null>(resume ? resumeBonusBalls ?? null : null);
+  // Text the share sheet couldn't take, shown for copying instead
+  const [unshared, setUnshared] = useState<{ title: string; text: string } | null>(null);
+
+  useEffect(() => {
+    if (game.status !== 'playing') {
+      onFinish?.(start, game);
+      if (subject && onNextFact) onNextFact(subject).then(setFact);
+    } else {
+      setFact(null);
     }
+  }, [game.status]);
 
-    lastBallX.current = INITIAL_LAUNCH_X;
-
-    const initialBalls: Ball[] = Array.from({ length: ballCount }, (_, i) => ({
-      id: i,
-      x: INITIAL_LAUNCH_X,
-      y: LAUNCH_Y,
-      dx: 0,
-      dy: 0,
-      launched: false
-    }));
-
-    // Load level data from JSON
-    const levelData = levelsData.levels[level - 1];
-    if (!levelData) {
-      setGameState({ level, gameStatus: 'won' });
-      return;
+  // Turn boundaries are the only points where the state is saved, so a resumed
+  // game always picks up with the balls at rest.
+  useEffect(() => {
+    if (!game.turnActive) {
+      onCheckpoint?.(start, game, replayRef.current, subjectId ?? null, quizBonus);
     }
+  }, [game.level, game.mode, game.turn, game.status, subjectId, quizBonus]);
 
-    const rows = levelData.rows;
-    const maxRowLength = Math.max(...rows.map(r => r.length));
-    // Compute brick size based on the design width and margin
-    const designBrickWidth = (DESIGN_WIDTH - (maxRowLength + 1) * 3) / maxRowLength;
-    const designBrickHeight = 25;
-
-    const brickWidth = designBrickWidth * scale;
-    const brickHeight = designBrickHeight * scale;
-
-    let brickId = 0;
-    const initialBricks: Brick[] = [];
-
-    rows.forEach((rowBricks, rowIndex) => {
-      rowBricks.forEach((brickDef, colIndex) => {
-        const x = (colIndex * (brickWidth + BRICK_MARGIN) + BRICK_MARGIN);
-        const y = (rowIndex * (brickHeight + BRICK_MARGIN) + HEADER_HEIGHT);
-        initialBricks.push({
-          id: brickId++,
-          shape: brickDef.shape || 'square',
-          x,
-          y,
-          width: brickWidth,
-          height: brickHeight,
-          visible: true,
-          hits: brickDef.hits,
-          color: brickDef.color,
-          points: brickDef.points,
-          givesBall: brickDef.givesBall
-        });
-      });
-    });
+  const showState = useCallback((state: GameState) => {
+    const snapshot = cloneState(state);
+    shownRef.current = snapshot;
+    ballPositions.value = ballCoordinates(snapshot.balls);
+    setGame(snapshot);
+  }, []);
 
-    setBricks(initialBricks);
-    setBalls(initialBalls);
-    setGameState({ level, gameStatus: 'playing' });
-    startGameLoop();
-  }, [ballCount]);
+  const loadState = useCallback((state: GameState) => {
+    gameRef.current = cloneState(state);
+    pendingInput.current = {};
+    lastFrameTime.current = 0;
+    showState(state);
+  }, []);
 
   const startGameLoop = useCallback(() => {
     const updateGame = (timestamp: number) => {
@@ -162,8 +186,41 @@ const BallBlasterGame: React.FC = () => {
       const deltaTime = timestamp - lastFrameTime.current;
       lastFrameTime.current = timestamp;
 
-      handleQueuedLaunches(timestamp);
-      updateBallsAndBricks(deltaTime);
+      // Speed only changes how much simulated time passes per frame, so
+      // fast-forwarded turns play out exactly as they would at 1x
+      const { chosen, auto } = speedRef.current;
+      const currentSpeed = simulationSpeed(gameRef.current, chosen, auto);
+      const simTime = deltaTime * currentSpeed;
+      if (currentSpeed !== runningSpeedRef.current) {
+        runningSpeedRef.current = currentSpeed;
+        setRunningSpeed(currentSpeed);
+      }
+
+      let next: GameState;
+      if (playbackRef.current) {
+        try {
+          playbackRef.current = advanceReplay(playbackRef.current, Math.min(simTime, 1000), LEVELS, events?.emit);
+        } catch (err) {
+          if (!(err instanceof ReplayError)) throw err;
+          // The loop stops here; the board stays as it was when the replay broke
+          gameLoop.current = null;
+          setPlaybackError(err.message);
+          return;
+        }
+        next = playbackRef.current.state;
+      } else {
+        const input = pendingInput.current;
+        pendingInput.current = {};
+        if (replayRef.current) replayRef.current = recordStep(replayRef.current, gameRef.current, input);
+        next = advance(gameRef.current, simTime, input, events?.emit);
+      }
+      gameRef.current = next;
+
+      if (needsRedraw(shownRef.current, next)) {
+        showState(next);
+      } else if (next.turnActive) {
+        ballPositions.value = ballCoordinates(next.balls);
+      }
 
       gameLoop.current = requestAnimationFrame(updateGame);
     };
@@ -171,359 +228,127 @@ const BallBlasterGame: React.FC = () => {
     gameLoop.current = requestAnimationFrame(updateGame);
   }, []);
 
-  const handleQueuedLaunches = (timestamp: number) => {
-    if (isLaunching.current && launchQueue.current.length > 0) {
-      const currentTime = timestamp;
-      if (currentTime - lastLaunchTime.current >= LAUNCH_DELAY) {
-        const [ballToLaunch, ...rest] = launchQueue.current;
-        launchQueue.current = rest;
-        setBalls(prev => {
-          const idx = prev.findIndex(b => b.id === ballToLaunch.id);
-          if (idx !== -1) {
-            const newBalls = [...prev];
-            newBalls[idx] = { ...ballToLaunch, launched: true };
-            return newBalls;
-          }
-          return prev;
-        });
-        lastLaunchTime.current = currentTime;
-      }
-    }
-  };
+  const endTurn = useCallback(() => {
+    pendingInput.current = { ...pendingInput.current, endTurn: true };
+  }, []);
 
-  const updateBallsAndBricks = (deltaTime: number) => {
-    const deltaSec = deltaTime / 1000;
-
-    setBalls(prevBalls => {
-      const newBalls = [...prevBalls];
-      let allBallsReturned = true;
-
-      setBricks(prevBricks => {
-        const updatedBricks = [...prevBricks];
-        let bricksUpdated = false;
-
-        for (let i = 0; i < newBalls.length; i++) {
-          const ball = newBalls[i];
-          if (!ball.launched) continue;
-          allBallsReturned = false;
-
-          const { newX, newY, collidedWithBrick, brickIndex } = updateBallPosition(ball, deltaSec, updatedBricks);
-
-          if (newY >= LAUNCH_Y) {
-            lastBallX.current = newX;
-            newBalls[i] = { ...ball, x: newX, y: LAUNCH_Y, launched: false };
-            continue;
-          }
-
-          if (collidedWithBrick && brickIndex !== null && updatedBricks[brickIndex]) {
-            const brick = updatedBricks[brickIndex];
-            brick.hits--;
-            if (brick.hits <= 0) {
-              brick.visible = false;
-              bricksUpdated = true;
-              setScore(prev => prev + brick.points);
-              if (brick.givesBall) {
-                setBallCount(prev => prev + 1);
-              }
-            }
-            updatedBricks[brickIndex] = brick;
-          }
-
-          newBalls[i] = { ...ball, x: newX, y: newY };
-        }
+  const setAim = useCallback((angle: number | null) => {
+    aimRef.current = angle;
+    if (angle !== null) launchAngle.value = angle;
+    setAimAngle(angle);
+  }, []);
 
-        if (allBallsReturned && isLaunching.current) {
-          endTurn(newBalls);
-        }
+  const fire = useCallback(() => {
+    const angle = aimRef.current;
+    setAim(null);
+    if (angle === null || !canLaunchNow(gameRef.current)) return;
+    pendingInput.current = { ...pendingInput.current, launch: { angle } };
+  }, []);
 
-        return bricksUpdated ? updatedBricks : prevBricks;
-      });
+  const onGestureEvent = useCallback((event: any) => {
+    const { x, y, translationX, translationY } = event.nativeEvent;
+    // Slingshot aims relative to where the drag began, direct from the launch point
+    const anchor: [number, number] = aimModeRef.current === 'slingshot'
+      ? [x - translationX, y - translationY]
+      : [gameRef.current.launchX, LAUNCH_Y];
+    setAim(pointerAimAngle(aimModeRef.current, anchor, [x, y], CONFIG));
+  }, []);
 
-      return newBalls;
-    });
+  // Arrow keys turn the aim (hold shift for fine steps), space or enter fires
+  // and escape cancels. Mouse aiming goes through the pan gesture like touch.
+  useEffect(() => {
+    if (Platform.OS !== 'web' || playback) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      const turn = (event.shiftKey ? 0.5 : 2) * (Math.PI / 180);
+      const current = aimRef.current ?? -Math.PI / 2;
+      switch (event.key) {
+        case 'ArrowLeft':
+          setAim(clampLaunchAngle(current - turn));
+          break;
+        case 'ArrowRight':
+          setAim(clampLaunchAngle(current + turn));
+          break;
+        case ' ':
+        case 'Enter':
+          fire();
+          break;
+        case 'Escape':
+          setAim(null);
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [playback]);
+
+  const startNextLevel = (bonusBalls = 0) => {
+    const seed = Date.now();
+    if (replayRef.current) replayRef.current = recordNextLevel(replayRef.current, seed, bonusBalls);
+    setQuiz(null);
+    setQuizPick(null);
+    setQuizBonus(null);
+    loadState(continueCampaign(game, LEVELS, seed, bonusBalls, events?.emit));
   };
 
-  const endTurn = (updatedBalls: Ball[]) => {
-    isLaunching.current = false;
-    launchQueue.current = [];
-    updatedBalls.forEach(ball => {
-      ball.x = lastBallX.current;
-    });
+  // Offers a bonus round first if the run's subject has questions and it
+  // hasn't been answered already
+  const leaveWonLevel = () => {
+    const next = quizBonus === null && subject ? buildQuiz(subject) : null;
+    if (next) setQuiz(next);
+    else startNextLevel(quizBonus ?? 0);
   };
 
-  const updateBallPosition = (
-    ball: Ball,
-    deltaSec: number,
-    updatedBricks: Brick[]
-  ): { newX: number; newY: number; collidedWithBrick: boolean; brickIndex: number | null } => {
-    let newX = ball.x + ball.dx * deltaSec;
-    let newY = ball.y + ball.dy * deltaSec;
-
-    // Walls
-    if (newX - BALL_RADIUS <= 0 || newX + BALL_RADIUS >= deviceWidth) {
-      const newDx = -ball.dx;
-      newX = ball.x + newDx * deltaSec;
-      ball.dx = newDx;
-    }
-
-    if (newY - BALL_RADIUS <= HEADER_HEIGHT) {
-      const newDy = -ball.dy;
-      newY = ball.y + newDy * deltaSec;
-      ball.dy = newDy;
-    }
-
-    // Bottom return check
-    if (newY >= LAUNCH_Y) {
-      return { newX, newY: LAUNCH_Y, collidedWithBrick: false, brickIndex: null };
-    }
-
-    // Bricks
-    let collidedWithBrick = false;
-    let brickIndex: number | null = null;
-    for (let j = 0; j < updatedBricks.length && !collidedWithBrick; j++) {
-      const brick = updatedBricks[j];
-      if (!brick.visible) continue;
-
-      if (
-        newX + BALL_RADIUS > brick.x &&
-        newX - BALL_RADIUS < brick.x + brick.width &&
-        newY + BALL_RADIUS > brick.y &&
-        newY - BALL_RADIUS < brick.y + brick.height
-      ) {
-        const fromLeft = Math.abs((newX + BALL_RADIUS) - brick.x);
-        const fromRight = Math.abs((newX - BALL_RADIUS) - (brick.x + brick.width));
-        const fromTop = Math.abs((newY + BALL_RADIUS) - brick.y);
-        const fromBottom = Math.abs((newY - BALL_RADIUS) - (brick.y + brick.height));
-        const minOverlap = Math.min(fromLeft, fromRight, fromTop, fromBottom);
-
-        if (minOverlap === fromLeft || minOverlap === fromRight) {
-          ball.dx = -ball.dx;
-          newX = ball.x + ball.dx * deltaSec;
-        } else {
-          ball.dy = -ball.dy;
-          newY = ball.y + ball.dy * deltaSec;
-        }
-
-        collidedWithBrick = true;
-        brickIndex = j;
-      }
-    }
-
-    return { newX, newY, collidedWithBrick, brickIndex };
+  const answerQuiz = (pick: number | 'skipped') => {
+    if (!quiz || quizPick !== null) return;
+    setQuizPick(pick);
+    setQuizBonus(pick === quiz.correct ? QUIZ_BONUS_BALLS : 0);
+    onQuizResult?.(quiz.subjectId, pick === 'skipped' ? 'skipped' : pick === quiz.correct ? 'correct' : 'wrong');
   };
 
-  const recallBalls = useCallback(() => {
-    setBalls(prev => prev.map(ball => ({
-      ...ball,
-      x: lastBallX.current,
-      y: LAUNCH_Y,
-      dx: 0,
-      dy: 0,
-      launched: false
-    })));
-    isLaunching.current = false;
-    launchQueue.current = [];
-  }, []);
-
-  const onGestureEvent = useCallback((event: any) => {
-    if (!isGameActive) return;
-    const touchX = event.nativeEvent.x;
-    const touchY = event.nativeEvent.y;
-
-    const dx = touchX - lastBallX.current;
-    const dy = touchY - LAUNCH_Y;
-    let angle = Math.atan2(dy, dx);
-    const maxAngle = Math.PI;
-    angle = Math.max(-maxAngle, Math.min(maxAngle, angle));
-    launchAngle.value = angle;
-    touchActive.current = true;
-  }, [isGameActive]);
-
-  const lastTurnHadLaunch = useRef<boolean>(false);
-
-  const onGestureEnd = useCallback(() => {
-    if (!isGameActive || !touchActive.current || balls.some(ball => ball.launched)) return;
-    touchActive.current = false;
-
-    const allBallsReturned = balls.every(ball => !ball.launched);
-    if (isLaunching.current || !allBallsReturned) {
-      return;
-    }
-
-    const angle = launchAngle.value;
-    const dx = Math.cos(angle) * BALL_SPEED_PER_SEC;
-    const dy = Math.sin(angle) * BALL_SPEED_PER_SEC;
-
-    const unlaunched = balls.filter(ball => !ball.launched);
-    if (unlaunched.length > 0) {
-      lastTurnHadLaunch.current = true;
-      launchQueue.current = unlaunched.map(ball => ({ ...ball, dx, dy }));
-      isLaunching.current = true;
-      lastLaunchTime.current = performance.now() - LAUNCH_DELAY;
-    }
-  }, [balls, isGameActive]);
-
-  useEffect(() => {
-    if (gameState.gameStatus !== 'playing') return;
-
-    const allBallsReturned = balls.every(ball => !ball.launched);
-    const visibleBricks = bricks.filter(brick => brick.visible);
+  const restartGame = () => {
+    replayRef.current = createReplay(SCREEN_WIDTH, SCREEN_HEIGHT, start);
+    loadState(createFromStart(start));
+  };
 
-    if (allBallsReturned && !isLaunching.current && lastTurnHadLaunch.current) {
-      lastTurnHadLaunch.current = false;
+  const finishedReplay = () => replayRef.current && finishReplay(replayRef.current, game);
 
-      // Check win
-      if (bricks.length > 0 && visibleBricks.length === 0) {
-        setGameState(prev => ({ ...prev, gameStatus: 'won' }));
-        return;
-      }
+  const share = (title: string, text: string) => {
+    shareText(text).then(shared => {
+      if (!shared) setUnshared({ title, text });
+    });
+  };
 
-      // Move bricks down
-      if (visibleBricks.length > 0) {
-        setBricks(prevBricks => {
-          const newBricks = prevBricks.map(brick => ({
-            ...brick,
-            y: brick.y + BRICK_DROP_AMOUNT
-          }));
-
-          if (newBricks.some(b => b.visible && b.y > LOSS_LINE)) {
-            setGameState(prev => ({ ...prev, gameStatus: 'lost' }));
-          }
-          return newBricks;
-        });
-      }
-    }
-  }, [gameState.gameStatus, isLaunching.current, balls, bricks]);
+  const shareReplay = () => {
+    const replay = finishedReplay();
+    if (replay) share('Replay', encodeReplay(replay));
+  };
 
-  const startNextLevel = () => {
-    initializeGame(gameState.level + 1);
+  const watchReplay = () => {
+    const replay = finishedReplay();
+    if (replay) onWatchReplay?.(replay);
   };
 
-  const restartGame = () => {
-    initializeGame(1);
+  const shareDailyResult = () => {
+    if (start.kind !== 'daily') return;
+    const stars = starRating(levelResult(game), game.rules);
+    share('Daily Result', dailySummary(start.date, levelResult(game), game.rules.par, stars));
   };
 
   const indicatorStyle = useAnimatedStyle(() => ({
     transform: [{ rotate: `${launchAngle.value}rad` }]
   }));
 
-  const allBallsReturned = balls.every(ball => !ball.launched);
-  const canLaunch = isGameActive && !isLaunching.current && allBallsReturned;
-
-  const renderBrick = (brick: Brick) => {
-    if (!brick.visible) return null;
-
-    // For a right triangle (diagonal cut):
-    // We'll create a diagonal right-angled triangle from top-left corner to bottom-right corner.
-    // This uses border trick:
-    // - borderRightWidth = brick.width
-    // - borderBottomWidth = brick.height
-    // - one color on bottom, transparent on right
-    // This makes a right-angled triangle with right angle at top-left.
-
-    return (
-      <View
-        key={brick.id}
-        style={{
-          position: 'absolute',
-          left: brick.x,
-          top: brick.y,
-          width: brick.width,
-          height: brick.height
-        }}
-      >
-        {brick.shape === 'sqr' ? (
-          <View style={{ flex: 1, backgroundColor: brick.color, justifyContent: 'center', alignItems: 'center' }}>
-            <Text style={styles.brickText}>{brick.hits}</Text>
-          </View>
-        ) : brick.shape === 'tr1' ? (
-          <View style={{ flex: 1 }}>
-            {/* Triangle: right angle at top-left corner */}
-            <View style={{
-              position: 'absolute',
-              top: 0,
-              left: 0,
-              width: 0,
-              height: 0,
-              borderStyle: 'solid',
-              borderRightWidth: brick.width,
-              borderBottomWidth: brick.height,
-              borderRightColor: 'transparent',
-              borderBottomColor: brick.color
-            }} />
-            <View style={{
-              position: 'absolute',
-              top: 0,
-              left: 0,
-              width: brick.width,
-              height: brick.height,
-              justifyContent: 'center',
-              alignItems: 'center'
-            }}>
-              <Text style={styles.triangleText}>{brick.hits}</Text>
-            </View>
-          </View>
-        ) : brick.shape === 'tr2' ? (
-          <View style={{ flex: 1 }}>
-            <View style={{
-              position: 'absolute',
-              top: 0,
-              left: 0,
-              width: 0,
-              height: 0,
-              borderStyle: 'solid',
-              borderRightWidth: brick.width,
-              borderBottomWidth: brick.height,
-              borderRightColor: 'transparent',
-              borderBottomColor: brick.color
-            }} />
-            <View style={{
-              position: 'absolute',
-              top: 0,
-              left: 0,
-              width: brick.width,
-              height: brick.height,
-              justifyContent: 'center',
-              alignItems: 'center'
-            }}>
-              <Text style={styles.triangleText}>{brick.hits}</Text>
-            </View>
-          </View>
-        ) : brick.shape === 'tr3' ? (
-          <View style={{ flex: 1 }}>
-            {/* Triangle: right angle at bottom-left corner */}
-            <View style={{
-              position: 'absolute',
-              top: 0,
-              left: 0,
-              width: 0,
-              height: 0,
-              borderStyle: 'solid',
-              borderRightWidth: brick.width,
-              borderBottomWidth: brick.height,
-              borderRightColor: 'transparent',
-              borderBottomColor: brick.color
-            }} />
-            <View style={{
-              position: 'absolute',
-              top: 0,
-              left: 0,
-              width: brick.width,
-              height: brick.height,
-              justifyContent: 'center',
-              alignItems: 'center'
-            }}>
-              <Text style={styles.triangleText}>{brick.hits}</Text>
-            </View>
-          </View>
-        ) : brick.shape === 'bla' ? (
-          <View style={{ flex: 1, backgroundColor: brick.color, justifyContent: 'center', alignItems: 'center' }}>
-            <Text style={styles.brickText}>{brick.hits}</Text>
-          </View>
-        ) : null}
-      </View>
-    );
-  };
+  const { bricks, score, ballCount } = game;
+  const canLaunch = canLaunchNow(game);
+
+  // Only recomputed when the aim or the board changes, not every frame
+  const previewDots = useMemo(
+    () => (aimAngle !== null && canLaunch ? dotsAlong(previewPath(game, aimAngle), PREVIEW_DOT_SPACING) : []),
+    [aimAngle, canLaunch, game.bricks, game.launchX, game.rules]
+  );
 
   return (
     <GestureHandlerRootView style={styles.container}>
@@ -540,19 +365,20 @@ const BallBlasterGame: React.FC = () => {
       </View>
 
       <PanGestureHandler
+        enabled={!playback}
         onGestureEvent={onGestureEvent}
-        onEnded={onGestureEnd}
-        onFailed={onGestureEnd}
-        onCancelled={onGestureEnd}
+        onEnded={fire}
+        onFailed={() => setAim(null)}
+        onCancelled={() => setAim(null)}
       >
         <View style={styles.gameArea}>
           {/* Launch direction indicator */}
-          {touchActive.current && (
+          {aimAngle !== null && (
             <View
               style={[
                 styles.directionIndicatorContainer,
                 {
-                  left: lastBallX.current,
+                  left: game.launchX,
                   top: LAUNCH_Y,
                 }
               ]}
@@ -569,55 +395,93 @@ const BallBlasterGame: React.FC = () => {
             </View>
           )}
 
-          {/* Bricks */}
-          {bricks.map(renderBrick)}
-
-          {/* Balls */}
-          {balls.map((ball) => (
+          {/* Predicted path */}
+          {previewDots.map(([x, y], i) => (
             <View
-              key={ball.id}
+              key={i}
               style={[
-                styles.ball,
-                {
-                  left: ball.x - BALL_RADIUS,
-                  top: ball.y - BALL_RADIUS,
-                  width: BALL_RADIUS * 2,
-                  height: BALL_RADIUS * 2,
-                },
+                styles.previewDot,
+                { left: x - PREVIEW_DOT_SIZE / 2, top: y - PREVIEW_DOT_SIZE / 2 }
               ]}
             />
           ))}
+
+          {/* Bricks */}
+          {bricks.map(brick => <BrickView key={brick.id} brick={brick} />)}
+
+          {/* Balls */}
+          <BallLayer count={game.balls.length} positions={ballPositions} radius={BALL_RADIUS} />
         </View>
       </PanGestureHandler>
 
       {/* Bottom Controls */}
       <View style={styles.bottomControls}>
+        <TouchableOpacity
+          style={[styles.controlButton, !game.turnActive && styles.controlButtonDisabled]}
+          onPress={endTurn}
+          disabled={!!playback || !game.turnActive}
+        >
+          <Text style={styles.controlButtonText}>END TURN</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.controlButton} onPress={() => setSpeed(nextSpeed(speed))}>
+          <Text style={styles.controlButtonText}>{runningSpeed}x</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.controlButton, !autoSpeed && styles.controlButtonDisabled]}
+          onPress={() => setAutoSpeed(!autoSpeed)}
+        >
+          <Text style={styles.controlButtonText}>AUTO</Text>
+        </TouchableOpacity>
         <TouchableOpacity
           style={styles.controlButton}
-          onPress={recallBalls}
+          onPress={() => onAimModeChange(AIM_MODES[(AIM_MODES.indexOf(aimMode) + 1) % AIM_MODES.length])}
         >
-          <Text style={styles.controlButtonText}>RECALL</Text>
+          <Text style={styles.controlButtonText}>{aimMode === 'direct' ? 'DIRECT' : 'SLING'}</Text>
         </TouchableOpacity>
-        <View style={styles.buttonPlaceholder} />
-        <View style={styles.buttonPlaceholder} />
-        <View style={styles.buttonPlaceholder} />
       </View>
 
       {/* Level Complete Modal */}
       <Modal
         transparent={true}
-        visible={gameState.gameStatus === 'won'}
+        visible={game.status === 'won' && !quiz}
         animationType="fade"
       >
         <View style={styles.modalContainer}>
           <View style={styles.modalContent}>
-            <Text style={styles.modalTitle}>Level {gameState.level} Complete!</Text>
-            <Text style={styles.modalScore}>Score: {score}</Text>
-            <TouchableOpacity
-              style={styles.modalButton}
-              onPress={startNextLevel}
-            >
-              <Text style={styles.modalButtonText}>Next Level</Text>
+            <Text style={styles.modalTitle}>{game.rules.name} Complete!</Text>
+            <Text style={styles.modalStars}>{formatStars(starRating(levelResult(game), game.rules))}</Text>
+            <ScoreBreakdownView state={game} totalLabel="Score" />
+            <Text style={styles.modalLevel}>
+              Turns: {game.turn}{game.rules.par !== null ? ` (par ${game.rules.par})` : ''}
+            </Text>
+            {fact && <Text style={styles.modalFact}>{fact}</Text>}
+            {game.mode === 'campaign' && !playback && (
+              <TouchableOpacity
+                style={styles.modalButton}
+                onPress={leaveWonLevel}
+              >
+                <Text style={styles.modalButtonText}>
+                  {game.level < LEVELS.length ? 'Next Level' : 'Endless Mode'}
+                </Text>
+              </TouchableOpacity>
+            )}
+            {start.kind === 'daily' && (
+              <TouchableOpacity style={styles.modalButton} onPress={shareDailyResult}>
+                <Text style={styles.modalButtonText}>Share</Text>
+              </TouchableOpacity>
+            )}
+            {replayRef.current && (
+              <View style={styles.modalRow}>
+                <TouchableOpacity style={[styles.modalButton, styles.modalRowButton]} onPress={watchReplay}>
+                  <Text style={styles.modalButtonText}>Watch</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={[styles.modalButton, styles.modalRowButton]} onPress={shareReplay}>
+                  <Text style={styles.modalButtonText}>Share Replay</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+            <TouchableOpacity style={styles.modalButton} onPress={onExit}>
+              <Text style={styles.modalButtonText}>Menu</Text>
             </TouchableOpacity>
           </View>
         </View>
@@ -626,19 +490,125 @@ const BallBlasterGame: React.FC = () => {
       {/* Game Over Modal */}
       <Modal
         transparent={true}
-        visible={gameState.gameStatus === 'lost'}
+        visible={game.status === 'lost'}
         animationType="fade"
       >
         <View style={styles.modalContainer}>
           <View style={styles.modalContent}>
             <Text style={styles.modalTitle}>Game Over</Text>
-            <Text style={styles.modalScore}>Final Score: {score}</Text>
-            <Text style={styles.modalLevel}>Made it to Level {gameState.level}</Text>
-            <TouchableOpacity
-              style={styles.modalButton}
-              onPress={restartGame}
-            >
-              <Text style={styles.modalButtonText}>Play Again</Text>
+            <ScoreBreakdownView state={game} totalLabel="Final Score" />
+            <Text style={styles.modalLevel}>
+              {game.mode === 'endless' ? `Survived ${game.turn} turns` : `Made it to ${game.rules.name}`}
+            </Text>
+            {fact && <Text style={styles.modalFact}>{fact}</Text>}
+            {!playback && (
+              <TouchableOpacity
+                style={styles.modalButton}
+                onPress={restartGame}
+              >
+                <Text style={styles.modalButtonText}>Play Again</Text>
+              </TouchableOpacity>
+            )}
+            {start.kind === 'daily' && (
+              <TouchableOpacity style={styles.modalButton} onPress={shareDailyResult}>
+                <Text style={styles.modalButtonText}>Share</Text>
+              </TouchableOpacity>
+            )}
+            {replayRef.current && (
+              <View style={styles.modalRow}>
+                <TouchableOpacity style={[styles.modalButton, styles.modalRowButton]} onPress={watchReplay}>
+                  <Text style={styles.modalButtonText}>Watch</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={[styles.modalButton, styles.modalRowButton]} onPress={shareReplay}>
+                  <Text style={styles.modalButtonText}>Share Replay</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+            <TouchableOpacity style={styles.modalButton} onPress={onExit}>
+              <Text style={styles.modalButtonText}>Menu</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
+      <CopyTextModal title={unshared?.title ?? ''} text={unshared?.text ?? null} onClose={() => setUnshared(null)} />
+
+      {/* Replay Error Modal */}
+      <Modal
+        transparent={true}
+        visible={playbackError !== null}
+        animationType="fade"
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Replay Stopped</Text>
+            <Text style={styles.modalFact}>{playbackError}</Text>
+            <TouchableOpacity style={styles.modalButton} onPress={onExit}>
+              <Text style={styles.modalButtonText}>Menu</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Bonus Round Modal */}
+      <Modal
+        transparent={true}
+        visible={quiz !== null}
+        animationType="fade"
+      >
+        {quiz && (
+          <View style={styles.modalContainer}>
+            <View style={styles.modalContent}>
+              <Text style={styles.modalTitle}>Bonus Round</Text>
+              <Text style={styles.modalFact}>{quiz.prompt}</Text>
+              {quizPick === null ? (
+                <>
+                  {quiz.options.map((option, i) => (
+                    <TouchableOpacity key={option} style={styles.modalButton} onPress={() => answerQuiz(i)}>
+                      <Text style={styles.modalButtonText}>{option}</Text>
+                    </TouchableOpacity>
+                  ))}
+                  <TouchableOpacity style={[styles.modalButton, styles.modalButtonQuiet]} onPress={() => answerQuiz('skipped')}>
+                    <Text style={styles.modalButtonText}>Skip</Text>
+                  </TouchableOpacity>
+                </>
+              ) : (
+                <>
+                  <Text style={styles.modalLevel}>
+                    {quizPick === quiz.correct
+                      ? `Correct! +${QUIZ_BONUS_BALLS} balls`
+                      : `${quizPick === 'skipped' ? 'Skipped' : 'Not quite'}. Answer: ${quiz.options[quiz.correct]}`}
+                  </Text>
+                  <TouchableOpacity
+                    style={styles.modalButton}
+                    onPress={() => startNextLevel(quizBonus ?? 0)}
+                  >
+                    <Text style={styles.modalButtonText}>Continue</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+          </View>
+        )}
+      </Modal>
+
+      {/* Trivia Subject Modal */}
+      <Modal
+        transparent={true}
+        visible={subjectId === undefined && game.status === 'playing'}
+        animationType="fade"
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Pick a Subject</Text>
+            <Text style={styles.modalLevel}>A fact and a bonus question after every level</Text>
+            {subjects.map(option => (
+              <TouchableOpacity key={option.id} style={styles.modalButton} onPress={() => setSubjectId(option.id)}>
+                <Text style={styles.modalButtonText}>{option.name}</Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity style={styles.modalButton} onPress={() => setSubjectId(null)}>
+              <Text style={styles.modalButtonText}>No Trivia</Text>
             </TouchableOpacity>
           </View>
         </View>
@@ -700,24 +670,6 @@ const styles = StyleSheet.create({
     alignSelf: 'stretch',
     position: 'relative',
   },
-  ball: {
-    position: 'absolute',
-    borderRadius: BALL_RADIUS,
-    backgroundColor: '#000000',
-    borderWidth: 0,
-  },
-  brickText: {
-    color: '#e8e8e8',
-    fontWeight: 'bold',
-    fontSize: 10,
-    fontFamily: 'monospace',
-  },
-  triangleText: {
-    color: '#e8e8e8',
-    fontWeight: 'bold',
-    fontSize: 10,
-    fontFamily: 'monospace',
-  },
   directionIndicatorContainer: {
     position: 'absolute',
     width: 0,
@@ -730,6 +682,13 @@ const styles = StyleSheet.create({
     borderStyle: 'dotted',
     transformOrigin: '0 0',
   },
+  previewDot: {
+    position: 'absolute',
+    width: PREVIEW_DOT_SIZE,
+    height: PREVIEW_DOT_SIZE,
+    borderRadius: PREVIEW_DOT_SIZE / 2,
+    backgroundColor: '#404040',
+  },
   bottomControls: {
     height: BOTTOM_CONTROLS_HEIGHT,
     backgroundColor: '#000000',
@@ -751,21 +710,15 @@ const styles = StyleSheet.create({
     minWidth: 70,
     alignItems: 'center',
   },
+  controlButtonDisabled: {
+    opacity: 0.4,
+  },
   controlButtonText: {
     color: '#000000',
     fontSize: 12,
     fontWeight: 'bold',
     fontFamily: 'monospace',
   },
-  buttonPlaceholder: {
-    width: 70,
-    height: 35,
-    borderRadius: 0,
-    borderWidth: 2,
-    borderColor: '#404040',
-    backgroundColor: '#202020',
-    opacity: 0.5,
-  },
   modalContainer: {
     flex: 1,
     backgroundColor: 'rgba(0, 0, 0, 0.9)',
@@ -787,11 +740,10 @@ const styles = StyleSheet.create({
     marginBottom: 15,
     fontFamily: 'monospace',
   },
-  modalScore: {
+  modalStars: {
     color: '#000000',
-    fontSize: 16,
+    fontSize: 24,
     marginBottom: 10,
-    fontFamily: 'monospace',
   },
   modalLevel: {
     color: '#000000',
@@ -799,6 +751,14 @@ const styles = StyleSheet.create({
     marginBottom: 20,
     fontFamily: 'monospace',
   },
+  modalFact: {
+    color: '#000000',
+    fontSize: 12,
+    maxWidth: 280,
+    textAlign: 'center',
+    marginBottom: 15,
+    fontFamily: 'monospace',
+  },
   modalButton: {
     backgroundColor: '#000000',
     paddingHorizontal: 20,
@@ -807,6 +767,15 @@ const styles = StyleSheet.create({
     marginTop: 10,
     borderWidth: 0,
   },
+  modalButtonQuiet: {
+    backgroundColor: '#808080',
+  },
+  modalRow: {
+    flexDirection: 'row',
+  },
+  modalRowButton: {
+    marginHorizontal: 5,
+  },
   modalButtonText: {
     color: '#e8e8e8',
     fontSize: 14,
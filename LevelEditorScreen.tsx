@@ -0,0 +1,462 @@
+import React, { useState } from 'react';
+import { Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import BrickView from './BrickView';
+import { shareText } from './CopyTextModal';
+import { columnX, resolveRules, rowY } from './engine/engine';
+import { BRICK_PALETTE, createBlankDraft, draftFromLevel, exportLevel, LevelDraft, resizeDraft, setCell } from './engine/levelDraft';
+import { loadLevel, LevelValidationError, MAX_ROW_WIDTH } from './engine/levels';
+import { getPowerUp, powerUpNames } from './engine/powerUps';
+import { encodeLevel } from './engine/shareCode';
+import { Brick, BRICK_SHAPES, BrickDefinition, BrickShape, LevelDefinition } from './engine/types';
+import { CONFIG, HEADER_HEIGHT, LEVELS } from './gameConfig';
+
+interface LevelEditorScreenProps {
+  draft: LevelDraft;
+  onChange: (draft: LevelDraft) => void;
+  onPlayTest: (level: LevelDefinition) => void;
+  onExit: () => void;
+}
+
+type Tool = BrickShape | 'erase';
+
+interface Brush {
+  tool: Tool;
+  hits: number;
+  points: number;
+  color: string;
+  givesBall: boolean;
+  powerUp?: string;
+}
+
+const Stepper: React.FC<{ label: string; value: number; min: number; max: number; onChange: (value: number) => void }> = ({
+  label, value, min, max, onChange
+}) => (
+  <View style={styles.stepper}>
+    <Text style={styles.stepperLabel}>{label}</Text>
+    <TouchableOpacity style={styles.stepperButton} onPress={() => onChange(Math.max(min, value - 1))}>
+      <Text style={styles.controlButtonText}>-</Text>
+    </TouchableOpacity>
+    <Text style={styles.stepperValue}>{value}</Text>
+    <TouchableOpacity style={styles.stepperButton} onPress={() => onChange(Math.min(max, value + 1))}>
+      <Text style={styles.controlButtonText}>+</Text>
+    </TouchableOpacity>
+  </View>
+);
+
+const LevelEditorScreen: React.FC<LevelEditorScreenProps> = ({ draft, onChange, onPlayTest, onExit }) => {
+  const [brush, setBrush] = useState<Brush>({ tool: 'sqr', hits: 1, points: 1, color: BRICK_PALETTE[0], givesBall: false });
+  const [exported, setExported] = useState<{ json: string; code: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Set when the share sheet isn't available, as on most desktop browsers
+  const [shareFailed, setShareFailed] = useState(false);
+  const [opening, setOpening] = useState(false);
+
+  // Same grid math the game uses, so the board plays exactly as drawn
+  const rules = resolveRules(draft, 1, CONFIG);
+  const maxRows = Math.max(1, Math.floor((rules.lossLine - CONFIG.ceilingY) / (rules.brickHeight + CONFIG.brickMargin)));
+
+  const paint = (row: number, col: number) => {
+    const brick: BrickDefinition | null = brush.tool === 'erase'
+      ? null
+      : { shape: brush.tool, hits: brush.hits, color: brush.color, points: brush.points, givesBall: brush.givesBall };
+    if (brick && brush.powerUp) brick.powerUp = brush.powerUp;
+    onChange(setCell(draft, row, col, brick));
+    setError(null);
+  };
+
+  const playTest = () => {
+    try {
+      onPlayTest(loadLevel(exportLevel(draft)));
+    } catch (err) {
+      setError(err instanceof LevelValidationError ? err.issues[0].message : String(err));
+    }
+  };
+
+  const exportJson = () => {
+    const level = exportLevel(draft);
+    setExported({ json: JSON.stringify(level, null, 2), code: encodeLevel(level) });
+    setShareFailed(false);
+  };
+
+  // Replaces the board with a campaign level, or a blank grid
+  const open = (level: LevelDefinition | null) => {
+    onChange(level ? draftFromLevel(level) : createBlankDraft());
+    setOpening(false);
+    setError(null);
+  };
+
+  const share = (text: string) => {
+    shareText(text).then(shared => setShareFailed(!shared));
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.controlButton} onPress={onExit}>
+          <Text style={styles.controlButtonText}>BACK</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>EDITOR</Text>
+        <TouchableOpacity style={styles.controlButton} onPress={playTest}>
+          <Text style={styles.controlButtonText}>PLAY</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Grid */}
+      <View style={styles.grid}>
+        <View style={[styles.lossLine, { top: rules.lossLine }]} />
+        {draft.rows.map((row, r) => row.map((cell, c) => {
+          const x = columnX(c, rules, CONFIG);
+          const y = rowY(r, rules, CONFIG);
+          const brick: Brick | null = cell && {
+            ...cell,
+            id: r * draft.columns + c,
+            x,
+            y,
+            width: rules.brickWidth,
+            height: rules.brickHeight,
+            visible: true,
+            passThrough: getPowerUp(cell.powerUp)?.passThrough
+          };
+          return (
+            <React.Fragment key={`${r}-${c}`}>
+              {brick && <BrickView brick={brick} />}
+              <TouchableOpacity
+                style={[
+                  styles.cell,
+                  { left: x, top: y, width: rules.brickWidth, height: rules.brickHeight },
+                  cell?.givesBall && styles.givesBallCell
+                ]}
+                onPress={() => paint(r, c)}
+              />
+            </React.Fragment>
+          );
+        }))}
+      </View>
+
+      {/* Tools */}
+      <ScrollView style={styles.tools} contentContainerStyle={styles.toolsContent}>
+        <View style={styles.toolRow}>
+          {[...BRICK_SHAPES, 'erase' as const].map(tool => (
+            <TouchableOpacity
+              key={tool}
+              style={[styles.toolButton, brush.tool === tool && styles.toolButtonActive]}
+              onPress={() => setBrush({ ...brush, tool })}
+            >
+              <Text style={[styles.toolButtonText, brush.tool === tool && styles.toolButtonTextActive]}>
+                {tool.toUpperCase()}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.toolRow}>
+          {BRICK_PALETTE.map(color => (
+            <TouchableOpacity
+              key={color}
+              style={[styles.swatch, { backgroundColor: color }, brush.color === color && styles.swatchActive]}
+              onPress={() => setBrush({ ...brush, color })}
+            />
+          ))}
+          <TouchableOpacity
+            style={[styles.toolButton, brush.givesBall && styles.toolButtonActive]}
+            onPress={() => setBrush({ ...brush, givesBall: !brush.givesBall })}
+          >
+            <Text style={[styles.toolButtonText, brush.givesBall && styles.toolButtonTextActive]}>+BALL</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.toolRow}>
+          {[undefined, ...powerUpNames()].map(powerUp => (
+            <TouchableOpacity
+              key={powerUp ?? 'none'}
+              style={[styles.toolButton, brush.powerUp === powerUp && styles.toolButtonActive]}
+              onPress={() => setBrush({ ...brush, powerUp })}
+            >
+              <Text style={[styles.toolButtonText, brush.powerUp === powerUp && styles.toolButtonTextActive]}>
+                {powerUp ? getPowerUp(powerUp)!.label : 'NO PWR'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.toolRow}>
+          <Stepper label="HITS" value={brush.hits} min={1} max={999} onChange={hits => setBrush({ ...brush, hits })} />
+          <Stepper label="PTS" value={brush.points} min={0} max={999} onChange={points => setBrush({ ...brush, points })} />
+        </View>
+
+        <View style={styles.toolRow}>
+          <Stepper
+            label="COLS"
+            value={draft.columns}
+            min={1}
+            max={MAX_ROW_WIDTH}
+            onChange={columns => onChange(resizeDraft(draft, columns, draft.rows.length))}
+          />
+          <Stepper
+            label="ROWS"
+            value={draft.rows.length}
+            min={1}
+            max={maxRows}
+            onChange={rowCount => onChange(resizeDraft(draft, draft.columns, rowCount))}
+          />
+        </View>
+
+        <View style={styles.toolRow}>
+          <TouchableOpacity style={styles.actionButton} onPress={() => setOpening(true)}>
+            <Text style={styles.actionButtonText}>OPEN</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={exportJson}>
+            <Text style={styles.actionButtonText}>EXPORT</Text>
+          </TouchableOpacity>
+        </View>
+
+        {error && <Text style={styles.errorText}>{error}</Text>}
+      </ScrollView>
+
+      {/* Open Modal */}
+      <Modal transparent={true} visible={opening} animationType="fade">
+        <View style={styles.modalContainer}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Open Level</Text>
+            <ScrollView style={styles.exportBox} contentContainerStyle={styles.openList}>
+              {LEVELS.map((level, i) => (
+                <TouchableOpacity key={i} style={styles.modalButton} onPress={() => open(level)}>
+                  <Text style={styles.modalButtonText}>{level.name ?? `Level ${i + 1}`}</Text>
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity style={styles.modalButton} onPress={() => open(null)}>
+                <Text style={styles.modalButtonText}>Blank</Text>
+              </TouchableOpacity>
+            </ScrollView>
+            <TouchableOpacity style={styles.modalButton} onPress={() => setOpening(false)}>
+              <Text style={styles.modalButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Export Modal */}
+      <Modal transparent={true} visible={exported !== null} animationType="fade">
+        <View style={styles.modalContainer}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Export Level</Text>
+            <Text selectable style={styles.exportText}>{exported?.code}</Text>
+            <ScrollView style={styles.exportBox}>
+              <Text selectable style={styles.exportText}>{exported?.json}</Text>
+            </ScrollView>
+            {shareFailed && <Text style={styles.errorText}>Sharing isn't available here. Select the text to copy it.</Text>}
+            <TouchableOpacity style={styles.modalButton} onPress={() => exported && share(exported.code)}>
+              <Text style={styles.modalButtonText}>Share Code</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.modalButton} onPress={() => exported && share(exported.json)}>
+              <Text style={styles.modalButtonText}>Share JSON</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.modalButton} onPress={() => setExported(null)}>
+              <Text style={styles.modalButtonText}>Close</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+// ----------------- STYLES -----------------
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#e8e8e8',
+  },
+  header: {
+    height: HEADER_HEIGHT,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    backgroundColor: '#000000',
+  },
+  headerTitle: {
+    color: '#e8e8e8',
+    fontSize: 16,
+    fontWeight: 'bold',
+    fontFamily: 'monospace',
+  },
+  grid: {
+    height: CONFIG.lossLine + CONFIG.brickMargin,
+    alignSelf: 'stretch',
+    position: 'relative',
+  },
+  cell: {
+    position: 'absolute',
+    borderWidth: 1,
+    borderColor: 'rgba(0,0,0,0.15)',
+  },
+  givesBallCell: {
+    borderColor: '#e8e8e8',
+    borderStyle: 'dashed',
+  },
+  lossLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    borderTopWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: 'rgba(255,0,0,0.5)',
+  },
+  tools: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  toolsContent: {
+    padding: 8,
+  },
+  toolRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  toolButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    marginRight: 4,
+    marginBottom: 4,
+    borderWidth: 2,
+    borderColor: '#404040',
+  },
+  toolButtonActive: {
+    backgroundColor: '#e8e8e8',
+    borderColor: '#e8e8e8',
+  },
+  toolButtonText: {
+    color: '#e8e8e8',
+    fontSize: 11,
+    fontWeight: 'bold',
+    fontFamily: 'monospace',
+  },
+  toolButtonTextActive: {
+    color: '#000000',
+  },
+  swatch: {
+    width: 28,
+    height: 28,
+    marginRight: 4,
+    borderWidth: 2,
+    borderColor: '#404040',
+  },
+  swatchActive: {
+    borderColor: '#e8e8e8',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  stepperLabel: {
+    color: '#e8e8e8',
+    fontSize: 11,
+    fontWeight: 'bold',
+    fontFamily: 'monospace',
+    marginRight: 4,
+  },
+  stepperButton: {
+    backgroundColor: '#e8e8e8',
+    width: 28,
+    height: 28,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperValue: {
+    color: '#e8e8e8',
+    fontSize: 14,
+    fontFamily: 'monospace',
+    minWidth: 36,
+    textAlign: 'center',
+  },
+  controlButton: {
+    backgroundColor: '#e8e8e8',
+    paddingHorizontal: 15,
+    paddingVertical: 8,
+    borderRadius: 0,
+    borderWidth: 2,
+    borderColor: '#000000',
+    minWidth: 70,
+    alignItems: 'center',
+  },
+  controlButtonText: {
+    color: '#000000',
+    fontSize: 12,
+    fontWeight: 'bold',
+    fontFamily: 'monospace',
+  },
+  actionButton: {
+    backgroundColor: '#e8e8e8',
+    paddingHorizontal: 15,
+    paddingVertical: 8,
+    marginRight: 8,
+  },
+  actionButtonText: {
+    color: '#000000',
+    fontSize: 12,
+    fontWeight: 'bold',
+    fontFamily: 'monospace',
+  },
+  errorText: {
+    color: '#ff6060',
+    fontSize: 12,
+    fontFamily: 'monospace',
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.9)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    backgroundColor: '#e8e8e8',
+    padding: 20,
+    borderRadius: 0,
+    alignItems: 'center',
+    borderWidth: 4,
+    borderColor: '#000000',
+    maxHeight: '80%',
+    width: '90%',
+  },
+  modalTitle: {
+    color: '#000000',
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 15,
+    fontFamily: 'monospace',
+  },
+  exportBox: {
+    alignSelf: 'stretch',
+    marginTop: 10,
+    marginBottom: 10,
+  },
+  openList: {
+    alignItems: 'center',
+  },
+  exportText: {
+    color: '#000000',
+    fontSize: 10,
+    fontFamily: 'monospace',
+  },
+  modalButton: {
+    backgroundColor: '#000000',
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    borderRadius: 0,
+    marginTop: 10,
+    borderWidth: 0,
+  },
+  modalButtonText: {
+    color: '#e8e8e8',
+    fontSize: 14,
+    fontWeight: 'bold',
+    fontFamily: 'monospace',
+  },
+});
+
+export default LevelEditorScreen;
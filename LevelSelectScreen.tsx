@@ -0,0 +1,149 @@
+import React from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { formatStars } from './engine/rating';
+import { LevelDefinition } from './engine/types';
+import { HEADER_HEIGHT } from './gameConfig';
+import { Progress } from './persistence/progress';
+
+interface LevelSelectScreenProps {
+  levels: LevelDefinition[];
+  progress: Progress;
+  onSelect: (level: number) => void;
+  onEndless: () => void;
+  onBack: () => void;
+}
+
+const LevelSelectScreen: React.FC<LevelSelectScreenProps> = ({ levels, progress, onSelect, onEndless, onBack }) => {
+  const endlessUnlocked = progress.unlocked > levels.length;
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.controlButton} onPress={onBack}>
+          <Text style={styles.controlButtonText}>BACK</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>SELECT LEVEL</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.grid}>
+        {levels.map((level, index) => {
+          const number = index + 1;
+          const locked = number > progress.unlocked;
+          const record = progress.levels[number];
+          return (
+            <TouchableOpacity
+              key={number}
+              style={[styles.tile, locked && styles.tileLocked]}
+              disabled={locked}
+              onPress={() => onSelect(number)}
+            >
+              <Text style={styles.tileNumber}>{locked ? '—' : number}</Text>
+              <Text style={styles.tileName} numberOfLines={1}>{level.name ?? `Level ${number}`}</Text>
+              <Text style={styles.tileStars}>{formatStars(record?.bestStars ?? 0)}</Text>
+              <Text style={styles.tileScore}>{record ? `BEST ${record.bestScore}` : ' '}</Text>
+            </TouchableOpacity>
+          );
+        })}
+
+        <TouchableOpacity
+          style={[styles.tile, !endlessUnlocked && styles.tileLocked]}
+          disabled={!endlessUnlocked}
+          onPress={onEndless}
+        >
+          <Text style={styles.tileNumber}>∞</Text>
+          <Text style={styles.tileName}>Endless</Text>
+          <Text style={styles.tileScore}>{endlessUnlocked ? ' ' : 'CLEAR ALL'}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+};
+
+// ----------------- STYLES -----------------
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#e8e8e8',
+  },
+  header: {
+    height: HEADER_HEIGHT,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    backgroundColor: '#000000',
+  },
+  headerTitle: {
+    color: '#e8e8e8',
+    fontSize: 16,
+    fontWeight: 'bold',
+    fontFamily: 'monospace',
+  },
+  headerSpacer: {
+    minWidth: 70,
+  },
+  controlButton: {
+    backgroundColor: '#e8e8e8',
+    paddingHorizontal: 15,
+    paddingVertical: 8,
+    borderRadius: 0,
+    borderWidth: 2,
+    borderColor: '#000000',
+    minWidth: 70,
+    alignItems: 'center',
+  },
+  controlButtonText: {
+    color: '#000000',
+    fontSize: 12,
+    fontWeight: 'bold',
+    fontFamily: 'monospace',
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    padding: 10,
+  },
+  tile: {
+    width: 96,
+    margin: 6,
+    paddingVertical: 10,
+    paddingHorizontal: 6,
+    alignItems: 'center',
+    backgroundColor: '#000000',
+    borderWidth: 2,
+    borderColor: '#000000',
+  },
+  tileLocked: {
+    backgroundColor: '#808080',
+    borderColor: '#404040',
+    opacity: 0.5,
+  },
+  tileNumber: {
+    color: '#e8e8e8',
+    fontSize: 22,
+    fontWeight: 'bold',
+    fontFamily: 'monospace',
+  },
+  tileName: {
+    color: '#e8e8e8',
+    fontSize: 10,
+    fontFamily: 'monospace',
+    marginTop: 4,
+  },
+  tileStars: {
+    color: '#e8e8e8',
+    fontSize: 14,
+    marginTop: 4,
+  },
+  tileScore: {
+    color: '#a0a0a0',
+    fontSize: 10,
+    fontFamily: 'monospace',
+    marginTop: 2,
+  },
+});
+
+export default LevelSelectScreen;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { breakdownItems } from './engine/scoring';
+import { GameState } from './engine/types';
+
+// Itemized score for the end-of-level dialogs: this level's points by source,
+// anything carried over from earlier levels, and the running total.
+const ScoreBreakdownView: React.FC<{ state: GameState; totalLabel: string }> = ({ state, totalLabel }) => (
+  <View style={styles.container}>
+    {breakdownItems(state.breakdown).map(item => (
+      <View key={item.label} style={styles.row}>
+        <Text style={styles.label}>{item.label}</Text>
+        <Text style={styles.points}>{item.points}</Text>
+      </View>
+    ))}
+    {state.startScore > 0 && (
+      <View style={styles.row}>
+        <Text style={styles.label}>Earlier levels</Text>
+        <Text style={styles.points}>{state.startScore}</Text>
+      </View>
+    )}
+    <View style={[styles.row, styles.totalRow]}>
+      <Text style={styles.total}>{totalLabel}</Text>
+      <Text style={styles.total}>{state.score}</Text>
+    </View>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    minWidth: 200,
+    marginBottom: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  totalRow: {
+    borderTopWidth: 2,
+    borderTopColor: '#000000',
+    paddingTop: 4,
+  },
+  label: {
+    color: '#404040',
+    fontSize: 12,
+    fontFamily: 'monospace',
+  },
+  points: {
+    color: '#000000',
+    fontSize: 12,
+    fontFamily: 'monospace',
+  },
+  total: {
+    color: '#000000',
+    fontSize: 16,
+    fontWeight: 'bold',
+    fontFamily: 'monospace',
+  },
+});
+
+export default ScoreBreakdownView;
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { DailyRecord } from './persistence/dailyRecords';
+
+interface TitleScreenProps {
+  dailyKey: string;
+  dailyRecord: DailyRecord | null;
+  canContinue: boolean;
+  onContinue: () => void;
+  onPlay: () => void;
+  onDaily: () => void;
+  onEditor: () => void;
+  onFacts: () => void;
+  // Starts the board in a share code or watches a pasted replay; returns an
+  // error message if the code is bad
+  onPlayCode: (code: string) => string | null;
+  // Debug builds only: shares the turn log as JSONL
+  onExportTelemetry?: () => void;
+}
+
+const TitleScreen: React.FC<TitleScreenProps> = ({
+  dailyKey, dailyRecord, canContinue, onContinue, onPlay, onDaily, onEditor, onFacts, onPlayCode, onExportTelemetry
+}) => {
+  const [code, setCode] = useState('');
+  const [codeError, setCodeError] = useState<string | null>(null);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>BALL BLASTER</Text>
+
+      {canContinue && (
+        <TouchableOpacity style={styles.menuButton} onPress={onContinue}>
+          <Text style={styles.menuButtonText}>CONTINUE</Text>
+        </TouchableOpacity>
+      )}
+
+      <TouchableOpacity style={styles.menuButton} onPress={onPlay}>
+        <Text style={styles.menuButtonText}>{canContinue ? 'NEW GAME' : 'PLAY'}</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.menuButton} onPress={onDaily}>
+        <Text style={styles.menuButtonText}>DAILY CHALLENGE</Text>
+      </TouchableOpacity>
+      <Text style={styles.caption}>
+        {dailyKey}
+        {dailyRecord
+          ? ` · played${dailyRecord.bestScore !== null ? ` · best ${dailyRecord.bestScore}` : ''}`
+          : ' · not played yet'}
+      </Text>
+
+      <TouchableOpacity style={styles.menuButton} onPress={onEditor}>
+        <Text style={styles.menuButtonText}>LEVEL EDITOR</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.menuButton} onPress={onFacts}>
+        <Text style={styles.menuButtonText}>FACTS</Text>
+      </TouchableOpacity>
+
+      <View style={styles.codeRow}>
+        <TextInput
+          style={styles.codeInput}
+          value={code}
+          onChangeText={text => {
+            setCode(text);
+            setCodeError(null);
+          }}
+          placeholder="SHARE CODE OR REPLAY"
+          placeholderTextColor="#808080"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <TouchableOpacity style={styles.codeButton} onPress={() => setCodeError(onPlayCode(code))}>
+          <Text style={styles.menuButtonText}>GO</Text>
+        </TouchableOpacity>
+      </View>
+      {codeError && <Text style={styles.errorText}>{codeError}</Text>}
+
+      {onExportTelemetry && (
+        <TouchableOpacity onPress={onExportTelemetry}>
+          <Text style={styles.debugText}>EXPORT TELEMETRY</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#e8e8e8',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  title: {
+    color: '#000000',
+    fontSize: 28,
+    fontWeight: 'bold',
+    fontFamily: 'monospace',
+    marginBottom: 40,
+  },
+  menuButton: {
+    backgroundColor: '#000000',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 0,
+    marginTop: 15,
+    minWidth: 200,
+    alignItems: 'center',
+  },
+  menuButtonText: {
+    color: '#e8e8e8',
+    fontSize: 14,
+    fontWeight: 'bold',
+    fontFamily: 'monospace',
+  },
+  codeRow: {
+    flexDirection: 'row',
+    marginTop: 15,
+    minWidth: 200,
+  },
+  codeInput: {
+    flex: 1,
+    borderWidth: 2,
+    borderColor: '#000000',
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontFamily: 'monospace',
+    fontSize: 12,
+    color: '#000000',
+  },
+  codeButton: {
+    backgroundColor: '#000000',
+    paddingHorizontal: 12,
+    justifyContent: 'center',
+  },
+  errorText: {
+    color: '#b00020',
+    fontSize: 12,
+    marginTop: 8,
+    fontFamily: 'monospace',
+  },
+  caption: {
+    color: '#404040',
+    fontSize: 12,
+    marginTop: 8,
+    fontFamily: 'monospace',
+  },
+  debugText: {
+    color: '#808080',
+    fontSize: 12,
+    marginTop: 30,
+    fontFamily: 'monospace',
+    textDecorationLine: 'underline',
+  },
+});
+
+export default TitleScreen;
@@ -1,7 +1,14 @@
+// A quiz question drawn from a subject's facts. Multiple-choice questions
+// without authored wrong answers borrow other questions' answers as distractors.
+export type QuizQuestion =
+  | { kind: 'choice'; prompt: string; answer: string; wrongAnswers?: string[] }
+  | { kind: 'trueFalse'; statement: string; answer: boolean };
+
 export interface SubjectOption {
   id: string;
   name: string;
   dummyFacts: string[];
+  questions?: QuizQuestion[];
 }
 
 export const PRESET_SUBJECTS: SubjectOption[] = [
@@ -27,6 +34,14 @@ export const PRESET_SUBJECTS: SubjectOption[] = [
       "Some researchers believe consciousness itself might be quantum mechanical, suggesting our brains might be running quantum computations. If true, we're all walking around with quantum computers in our heads.",
       "Quantum computers could break most modern encryption within hours, but they could also create unbreakable encryption methods. Countries are already storing encrypted data to decrypt it once quantum computers are powerful enough.",
       "The first quantum computer game was created in 2021, but ironically, it could only play a very simple version of Pong, despite the quantum computer being theoretically more powerful than classical supercomputers for certain tasks."
+    ],
+    questions: [
+      { kind: 'choice', prompt: 'What does each extra qubit do to a quantum computer\'s processing power?', answer: 'Doubles it', wrongAnswers: ['Adds one bit', 'Halves it', 'Nothing'] },
+      { kind: 'choice', prompt: 'What did Einstein call quantum entanglement?', answer: 'Spooky action at a distance' },
+      { kind: 'choice', prompt: 'How many physical qubits does one reliable logical qubit need?', answer: 'About 1,000', wrongAnswers: ['About 2', 'About 10', 'About 1,000,000'] },
+      { kind: 'choice', prompt: 'How many qubits did the quantum supremacy experiment use?', answer: '53' },
+      { kind: 'trueFalse', statement: 'Quantum teleportation moves matter from one place to another.', answer: false },
+      { kind: 'trueFalse', statement: 'Cosmic rays can cause errors in quantum computers.', answer: true }
     ]
   },
   {
@@ -50,6 +65,13 @@ export const PRESET_SUBJECTS: SubjectOption[] = [
       "When the court building opened in 1935, the justices were so uncomfortable with its grandeur that some refused to move in. Justice McReynolds called it 'almost bombastic' and Justice Van Devanter worried it would 'make us look too important.'",
       "There's a secret handshake that the justices perform before every conference, started by Chief Justice Melville Fuller in the 1800s to show that harmony prevailed among the justices despite their differences.",
       "The court's courtroom features hidden panels that can instantly seal it off from the rest of the building in case of emergency, complete with its own air supply and communications system—a post-9/11 addition that most visitors never notice."
+    ],
+    questions: [
+      { kind: 'choice', prompt: 'What is the basketball court above the courtroom nicknamed?', answer: 'The Highest Court in the Land' },
+      { kind: 'choice', prompt: 'Which justice served the longest tenure on the Supreme Court?', answer: 'William O. Douglas', wrongAnswers: ['Samuel Chase', 'John Marshall', 'Oliver Wendell Holmes'] },
+      { kind: 'choice', prompt: 'In what year was Justice Samuel Chase impeached?', answer: '1804', wrongAnswers: ['1776', '1865', '1913'] },
+      { kind: 'trueFalse', statement: 'Some of the court building\'s marble was quarried by prisoners in Alabama.', answer: true },
+      { kind: 'trueFalse', statement: 'Samuel Chase stepped down from the court during his impeachment trial.', answer: false }
     ]
   },
   {
@@ -74,6 +96,14 @@ export const PRESET_SUBJECTS: SubjectOption[] = [
       "The Celtic Druids believed that writing their teachings down would rob them of their power, so they memorized up to 20 years worth of oral traditions. When the Romans destroyed their order, thousands of years of knowledge were lost forever.",
       "The Inca religion practiced capacocha, where children were taken to mountain peaks, given alcohol and coca leaves, and left to freeze to death. They believed these children didn't die but became messenger spirits to their gods. Some mummies have been found so well preserved that their organs were still intact.",
       "In ancient Egypt, some temples kept sacred geese that were believed to be able to detect lies. Priests would present two identical-looking pieces of bread to the accused, one normal and one marked with a secret prayer. If the goose ate the marked piece, the person was considered innocent."
+    ],
+    questions: [
+      { kind: 'choice', prompt: 'How did Mesopotamian priests practice hepatoscopy?', answer: 'Reading sheep livers', wrongAnswers: ['Reading the stars', 'Casting bones', 'Watching birds'] },
+      { kind: 'choice', prompt: 'How long did Odin hang from the World Tree?', answer: 'Nine days and nights', wrongAnswers: ['Three days', 'Forty days and nights', 'A full year'] },
+      { kind: 'choice', prompt: 'Which god was worshipped in a bronze statue with a furnace in its belly?', answer: 'Moloch' },
+      { kind: 'choice', prompt: 'Whose cult held services in underground temples?', answer: 'Mithras' },
+      { kind: 'trueFalse', statement: 'Manichean priests believed eating released particles of light trapped in food.', answer: true },
+      { kind: 'trueFalse', statement: 'The Orphic mysteries taught that humans were made from the ashes of Zeus.', answer: false }
     ]
   }
 ];
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { Point } from './shapes';
+import { GameConfig } from './types';
+
+// Direct aims at the pointer; slingshot aims opposite the drag, like pulling
+// back a rubber band.
+export const AIM_MODES = ['direct', 'slingshot'] as const;
+export type AimMode = typeof AIM_MODES[number];
+
+// Shallowest launch allowed, measured up from horizontal. Anything flatter
+// would skim the launch line and count as returned straight away.
+export const MIN_LAUNCH_ANGLE = Math.PI / 18;
+
+// Radius around the aim anchor, in design px, where letting go fires nothing
+export const CANCEL_RADIUS = 20;
+
+// Brings any angle into the upward range [-PI + MIN_LAUNCH_ANGLE, -MIN_LAUNCH_ANGLE],
+// snapping downward aims to the nearer side.
+export function clampLaunchAngle(angle: number): number {
+  const a = Math.atan2(Math.sin(angle), Math.cos(angle));
+  if (a >= -Math.PI + MIN_LAUNCH_ANGLE && a <= -MIN_LAUNCH_ANGLE) return a;
+  return Math.cos(a) >= 0 ? -MIN_LAUNCH_ANGLE : -Math.PI + MIN_LAUNCH_ANGLE;
+}
+
+// Launch angle for a pointer at `pointer`, or null while it is inside the
+// cancel zone. `anchor` is the launch point when aiming directly and the point
+// the drag started from in slingshot mode.
+export function aimAngle(mode: AimMode, anchor: Point, pointer: Point, config: GameConfig): number | null {
+  let dx = pointer[0] - anchor[0];
+  let dy = pointer[1] - anchor[1];
+  if (Math.hypot(dx, dy) < CANCEL_RADIUS * config.scale) return null;
+  if (mode === 'slingshot') {
+    dx = -dx;
+    dy = -dy;
+  }
+  return clampLaunchAngle(Math.atan2(dy, dx));
+}
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import levelsData from '../levels.json';
+import { createConfig } from './config';
+import { advance, brickGrid, canLaunch, FIXED_STEP_MS, startGame } from './engine';
+import { loadLevels } from './levels';
+import { findContact } from './physics';
+import { createRng, nextFloat, Rng } from './random';
+import { Ball, GameStart, GameState } from './types';
+
+// Collision through the broadphase grid must find exactly the contacts a test
+// against every brick finds. Games are played out with random launches; before
+// every frame each ball's next sweep is resolved both ways, and at every launch
+// so are random long sweeps across the board.
+const FRAME_MS = 1000 / 60;
+// Frames played per game, at most
+const MAX_FRAMES = 8000;
+const RANDOM_SWEEPS_PER_TURN = 50;
+
+const levels = loadLevels(levelsData);
+const config = createConfig(390, 844);
+
+function compare(state: GameState, ball: Ball, dx: number, dy: number, label: string) {
+  const skip = new Set<number>();
+  const brute = JSON.stringify(findContact(ball, dx, dy, state.bricks, state.config, skip));
+  const gridded = JSON.stringify(findContact(ball, dx, dy, state.bricks, state.config, skip, brickGrid(state)));
+  if (brute !== gridded) {
+    assert.equal(gridded, brute, `${label}: ball at (${ball.x}, ${ball.y}) moving (${dx}, ${dy})`);
+  }
+}
+
+// Long sweeps from random points in every direction, crossing many cells
+function randomSweeps(state: GameState, rng: Rng, label: string) {
+  const { width, ceilingY, launchY, ballRadius } = state.config;
+  for (let i = 0; i < RANDOM_SWEEPS_PER_TURN; i++) {
+    const ball: Ball = {
+      id: -1,
+      x: ballRadius + nextFloat(rng) * (width - 2 * ballRadius),
+      y: ceilingY + ballRadius + nextFloat(rng) * (launchY - ceilingY - ballRadius),
+      dx: 0,
+      dy: 0,
+      launched: true
+    };
+    const angle = nextFloat(rng) * 2 * Math.PI;
+    const length = nextFloat(rng) * launchY;
+    compare(state, ball, Math.cos(angle) * length, Math.sin(angle) * length, `${label} random sweep`);
+  }
+}
+
+function playAndCompare(start: GameStart) {
+  const label = JSON.stringify(start);
+  const rng = createRng(`broadphase:${label}`);
+  let state = startGame(config, levels, start);
+  for (let frame = 0; frame < MAX_FRAMES && state.status === 'playing'; frame++) {
+    let input = {};
+    if (canLaunch(state)) {
+      randomSweeps(state, rng, `${label} turn ${state.turn}`);
+      input = { launch: { angle: -Math.PI * (0.1 + nextFloat(rng) * 0.8) } };
+    }
+    state.balls.forEach(ball => {
+      if (!ball.launched) return;
+      const seconds = FIXED_STEP_MS / 1000;
+      compare(state, ball, ball.dx * seconds, ball.dy * seconds, `${label} turn ${state.turn}`);
+    });
+    state = advance(state, FRAME_MS, input);
+  }
+}
+
+test('the broadphase matches brute force on the campaign levels', () => {
+  levels.forEach((_, i) => playAndCompare({ kind: 'campaign', level: i + 1 }));
+});
+
+test('the broadphase matches brute force on daily boards', () => {
+  ['2024-03-01', '2024-03-02', '2024-03-03'].forEach(date => playAndCompare({ kind: 'daily', date }));
+});
+
+test('the broadphase matches brute force on endless runs', () => {
+  [1, 2, 3].forEach(seed => playAndCompare({ kind: 'endless', seed }));
+});
@@ -0,0 +1,78 @@
+import { Brick } from './types';
+
+// Uniform grid over the brick layout, so a ball only tests the bricks near its
+// sweep instead of every brick on the board. Cells match the level's brick
+// pitch, which puts most bricks in exactly one cell. Each cell lists brick
+// indices in ascending order: the narrow phase then sees candidates in the same
+// order as a scan of the whole array, and breaks ties between equally early
+// contacts the same way.
+export interface BrickGrid {
+  originX: number;
+  originY: number;
+  cellWidth: number;
+  cellHeight: number;
+  columns: number;
+  cells: number[][];
+}
+
+// Anything outside the grid is clamped into its edge cells, both when bricks
+// are added and when the grid is queried, so nothing can fall through.
+function column(grid: BrickGrid, x: number): number {
+  return Math.min(grid.columns - 1, Math.max(0, Math.floor((x - grid.originX) / grid.cellWidth)));
+}
+
+function row(grid: BrickGrid, y: number): number {
+  return Math.max(0, Math.floor((y - grid.originY) / grid.cellHeight));
+}
+
+function forEachCell(grid: BrickGrid, brick: Brick, visit: (cell: number) => void) {
+  const right = column(grid, brick.x + brick.width);
+  const bottom = row(grid, brick.y + brick.height);
+  for (let r = row(grid, brick.y); r <= bottom; r++) {
+    for (let c = column(grid, brick.x); c <= right; c++) visit(r * grid.columns + c);
+  }
+}
+
+// Builds the grid for the visible bricks. `columns` cells of `cellWidth` span
+// the play field from `originX`.
+export function buildBrickGrid(
+  bricks: Brick[], originX: number, originY: number, cellWidth: number, cellHeight: number, columns: number
+): BrickGrid {
+  const grid: BrickGrid = { originX, originY, cellWidth, cellHeight, columns: Math.max(1, columns), cells: [] };
+  bricks.forEach((brick, index) => {
+    if (!brick.visible) return;
+    forEachCell(grid, brick, cell => {
+      if (!grid.cells[cell]) grid.cells[cell] = [];
+      grid.cells[cell].push(index);
+    });
+  });
+  return grid;
+}
+
+// Takes a broken brick out of the grid
+export function removeFromGrid(grid: BrickGrid, brick: Brick, index: number) {
+  forEachCell(grid, brick, cell => {
+    const indices = grid.cells[cell] ?? [];
+    const at = indices.indexOf(index);
+    if (at >= 0) indices.splice(at, 1);
+  });
+}
+
+// Indices of every brick whose cells overlap the box, in ascending order
+export function queryGrid(grid: BrickGrid, left: number, top: number, right: number, bottom: number): number[] {
+  const c0 = column(grid, left);
+  const c1 = column(grid, right);
+  const r0 = row(grid, top);
+  const r1 = row(grid, bottom);
+  if (c0 === c1 && r0 === r1) return grid.cells[r0 * grid.columns + c0] ?? [];
+
+  const found: number[] = [];
+  for (let r = r0; r <= r1; r++) {
+    for (let c = c0; c <= c1; c++) {
+      const indices = grid.cells[r * grid.columns + c];
+      if (indices) found.push(...indices);
+    }
+  }
+  found.sort((a, b) => a - b);
+  return found.filter((index, i) => i === 0 || index !== found[i - 1]);
+}
@@ -0,0 +1,40 @@
+import { GameConfig } from './types';
+
+export const DESIGN_WIDTH = 320;
+export const DESIGN_HEIGHT = 480;
+export const DESIGN_BRICK_HEIGHT = 25;
+export const DESIGN_BRICK_GAP = 3;
+export const DESIGN_BRICK_MARGIN = 2;
+
+// Maintain aspect ratio for the game area and pick a uniform scale so everything fits.
+export function computeScale(deviceWidth: number, deviceHeight: number): number {
+  let gameAreaWidth = deviceWidth;
+  let gameAreaHeight = (deviceWidth / DESIGN_WIDTH) * DESIGN_HEIGHT;
+  if (gameAreaHeight > deviceHeight) {
+    gameAreaHeight = deviceHeight;
+    gameAreaWidth = (deviceHeight / DESIGN_HEIGHT) * DESIGN_WIDTH;
+  }
+  return Math.min(gameAreaWidth / DESIGN_WIDTH, gameAreaHeight / DESIGN_HEIGHT);
+}
+
+export function createConfig(deviceWidth: number, deviceHeight: number): GameConfig {
+  const scale = computeScale(deviceWidth, deviceHeight);
+  const ballRadius = 4 * scale;
+  const headerHeight = 60 * scale;
+  const bottomControlsHeight = 60 * scale;
+
+  return {
+    scale,
+    width: deviceWidth,
+    ceilingY: headerHeight,
+    launchY: deviceHeight - bottomControlsHeight - (ballRadius * 2) - 100,
+    initialLaunchX: deviceWidth / 2,
+    lossLine: deviceHeight - bottomControlsHeight - (deviceHeight * 0.3),
+    ballRadius,
+    ballSpeed: 600 * scale,
+    launchDelay: 150,
+    brickMargin: DESIGN_BRICK_MARGIN * scale,
+    brickDropAmount: 40 * scale,
+    initialBallCount: 10,
+  };
+}
@@ -0,0 +1,40 @@
+import { ENDLESS_COLUMNS, generateRow } from './endless';
+import { createRng, nextInt } from './random';
+import { formatStars, LevelResult, Stars } from './rating';
+import { CLEAR_BONUS } from './scoring';
+import { LevelDefinition } from './types';
+
+// Local calendar date as YYYY-MM-DD; the same string seeds everyone's board.
+export function dailyKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Builds the daily board in the levels.json format. Board, ball count, par and
+// target score all derive from the date alone. The target takes the clear, the
+// board's points and either long combos or finishing well under par.
+export function generateDailyLevel(key: string): LevelDefinition {
+  const rng = createRng(`daily:${key}`);
+  const rowCount = nextInt(rng, 4, 6);
+  const ballCount = nextInt(rng, 8, 14);
+  const rows = Array.from({ length: rowCount }, (_, i) => generateRow(rng, i + 1));
+  const points = rows.flat().reduce((sum, brick) => sum + (brick?.points ?? 0), 0);
+
+  return {
+    name: `Daily ${key}`,
+    ballCount,
+    columns: ENDLESS_COLUMNS,
+    par: rowCount + 2,
+    targetScore: CLEAR_BONUS + points * 3,
+    rows: rows.reverse()
+  };
+}
+
+export function dailySummary(key: string, result: LevelResult, par: number | null, stars: Stars): string {
+  return [
+    `Ball Blaster Daily ${key}`,
+    result.won ? `Cleared in ${result.turns} turns${par !== null ? ` (par ${par})` : ''}` : `Lost after ${result.turns} turns`,
+    `Score: ${result.score}`,
+    formatStars(stars)
+  ].join('\n');
+}
@@ -0,0 +1,61 @@
+import { DESIGN_BRICK_HEIGHT, DESIGN_BRICK_MARGIN } from './config';
+import { nextFloat, nextInt, pickOne, Rng } from './random';
+import { BrickDefinition, BrickShape, LevelDefinition } from './types';
+
+export const ENDLESS_COLUMNS = 7;
+export const ENDLESS_START_ROWS = 3;
+
+const TRIANGLES: BrickShape[] = ['tr1', 'tr2', 'tr3', 'tr4'];
+// Darker bricks take more hits, matching the palette in levels.json
+const COLORS = ['#000000', '#202020', '#404040'];
+const PICKUP_COLOR = '#808080';
+
+function pickShape(rng: Rng): BrickShape {
+  const roll = nextFloat(rng);
+  if (roll < 0.75) return 'sqr';
+  if (roll < 0.93) return pickOne(rng, TRIANGLES);
+  return 'circle';
+}
+
+// Generates row number `rowNumber` (1-based) of an endless run. Hit counts
+// grow with the row number and roughly one brick in five takes double damage
+// to clear. Every row carries one extra-ball pickup in an otherwise empty cell.
+export function generateRow(rng: Rng, rowNumber: number, columns = ENDLESS_COLUMNS): (BrickDefinition | null)[] {
+  const row: (BrickDefinition | null)[] = Array.from({ length: columns }, () => null);
+  const pickupColumn = nextInt(rng, 0, columns - 1);
+
+  let filled = 0;
+  for (let col = 0; col < columns; col++) {
+    if (col === pickupColumn || nextFloat(rng) < 0.45) continue;
+    const heavy = nextFloat(rng) < 0.2;
+    const hits = heavy ? rowNumber * 2 : rowNumber;
+    row[col] = {
+      shape: pickShape(rng),
+      hits,
+      color: COLORS[Math.min(COLORS.length - 1, heavy ? 2 : Math.floor(rowNumber / 10))],
+      points: heavy ? 2 : 1
+    };
+    filled++;
+  }
+
+  // Never hand out a row with nothing to hit but the pickup
+  if (filled === 0) {
+    const col = (pickupColumn + 1) % columns;
+    row[col] = { shape: 'sqr', hits: rowNumber, color: COLORS[0], points: 1 };
+  }
+
+  row[pickupColumn] = { shape: 'circle', hits: 1, color: PICKUP_COLOR, points: 0, givesBall: true };
+  return row;
+}
+
+// Opening board for an endless run: a few generated rows, newest on top. Bricks
+// drop exactly one row per turn so generated rows stack without gaps.
+export function generateEndlessLevel(rng: Rng): LevelDefinition {
+  const rows = Array.from({ length: ENDLESS_START_ROWS }, (_, i) => generateRow(rng, i + 1));
+  return {
+    name: 'Endless',
+    columns: ENDLESS_COLUMNS,
+    dropAmount: DESIGN_BRICK_HEIGHT + DESIGN_BRICK_MARGIN,
+    rows: rows.reverse()
+  };
+}
@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createConfig } from './config';
+import { continueCampaign, startGame } from './engine';
+import { GameEvent } from './events';
+import { LevelDefinition } from './types';
+
+const config = createConfig(390, 844);
+const ROWS: LevelDefinition['rows'] = [[{ shape: 'sqr', hits: 1, color: '#000000', points: 1 }]];
+
+function won(levels: LevelDefinition[]) {
+  return { ...startGame(config, levels, { kind: 'campaign', level: 1 }), status: 'won' as const };
+}
+
+test('bonus balls are added on top of a level that sets its own ball count', () => {
+  const levels: LevelDefinition[] = [{ ballCount: 1, rows: ROWS }, { ballCount: 5, rows: ROWS }];
+  const events: GameEvent[] = [];
+  const next = continueCampaign(won(levels), levels, 1, 3, event => events.push(event));
+
+  assert.equal(next.level, 2);
+  assert.equal(next.ballCount, 8);
+  assert.equal(next.balls.length, 8);
+  assert.deepEqual(events, [{ type: 'ballGranted', count: 3, ballCount: 8, source: 'bonus' }]);
+});
+
+test('bonus balls are added to the count carried over from the last level', () => {
+  const levels: LevelDefinition[] = [{ ballCount: 4, rows: ROWS }, { rows: ROWS }];
+  assert.equal(continueCampaign(won(levels), levels, 1, 3).ballCount, 7);
+  assert.equal(continueCampaign(won(levels), levels, 1).ballCount, 4);
+});
+
+test('bonus balls carry into the endless run after the last level', () => {
+  const levels: LevelDefinition[] = [{ ballCount: 2, rows: ROWS }];
+  const next = continueCampaign(won(levels), levels, 1, 3);
+
+  assert.equal(next.mode, 'endless');
+  assert.equal(next.ballCount, 5);
+});
@@ -0,0 +1,530 @@
+import { clampLaunchAngle } from './aiming';
+import { BrickGrid, buildBrickGrid, removeFromGrid } from './broadphase';
+import { DESIGN_BRICK_GAP, DESIGN_BRICK_HEIGHT, DESIGN_WIDTH } from './config';
+import { generateDailyLevel } from './daily';
+import { BrickEventInfo, EmitEvent, NO_EVENTS } from './events';
+import { ENDLESS_START_ROWS, generateEndlessLevel, generateRow } from './endless';
+import { moveBall } from './physics';
+import { getPowerUp } from './powerUps';
+import { CLEAR_BONUS, comboBonus, EMPTY_BREAKDOWN, multiBreakBonus, underParBonus } from './scoring';
+import { createRng, Rng } from './random';
+import { Ball, Brick, BrickRow, GameConfig, GameMode, GameStart, GameState, LevelDefinition, LevelRules, StepInput } from './types';
+
+export const FIXED_STEP_MS = 1000 / 120;
+// Frames longer than this (app backgrounded, debugger pause) are clamped so the
+// simulation never has to catch up on seconds of backlog at once.
+const MAX_FRAME_MS = 250;
+
+// ----------------- SETUP -----------------
+function createBalls(count: number, x: number, config: GameConfig): Ball[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: i,
+    x,
+    y: config.launchY,
+    dx: 0,
+    dy: 0,
+    launched: false
+  }));
+}
+
+// Resolves a level's optional settings against the defaults and converts design
+// units to screen pixels.
+export function resolveRules(level: LevelDefinition, levelNumber: number, config: GameConfig): LevelRules {
+  const columns = level.columns ?? Math.max(1, ...level.rows.map(r => r.length));
+  // Compute brick size based on the design width and margin
+  const designBrickWidth = (DESIGN_WIDTH - (columns + 1) * DESIGN_BRICK_GAP) / columns;
+
+  return {
+    name: level.name ?? `Level ${levelNumber}`,
+    par: level.par ?? null,
+    targetScore: level.targetScore ?? null,
+    preview: level.preview ?? 'full',
+    dropAmount: level.dropAmount !== undefined ? level.dropAmount * config.scale : config.brickDropAmount,
+    lossLine: level.lossLine !== undefined ? config.launchY - level.lossLine * config.scale : config.lossLine,
+    columns,
+    brickWidth: designBrickWidth * config.scale,
+    brickHeight: (level.brickHeight ?? DESIGN_BRICK_HEIGHT) * config.scale,
+    spawn: level.spawn ?? null
+  };
+}
+
+// Screen position of a grid column, and of a row in the level's starting layout
+export function columnX(col: number, rules: LevelRules, config: GameConfig): number {
+  return col * (rules.brickWidth + config.brickMargin) + config.brickMargin;
+}
+
+export function rowY(row: number, rules: LevelRules, config: GameConfig): number {
+  return row * (rules.brickHeight + config.brickMargin) + config.ceilingY;
+}
+
+function layoutRow(row: BrickRow, y: number, firstId: number, rules: LevelRules, config: GameConfig): Brick[] {
+  const bricks: Brick[] = [];
+  row.forEach((brickDef, colIndex) => {
+    if (!brickDef) return;
+    const powerUp = brickDef.powerUp ?? (brickDef.givesBall ? 'extraBall' : undefined);
+    bricks.push({
+      id: firstId + bricks.length,
+      shape: brickDef.shape,
+      x: columnX(colIndex, rules, config),
+      y,
+      width: rules.brickWidth,
+      height: rules.brickHeight,
+      visible: true,
+      hits: brickDef.hits,
+      color: brickDef.color,
+      points: brickDef.points,
+      givesBall: brickDef.givesBall,
+      powerUp,
+      passThrough: getPowerUp(powerUp)?.passThrough ?? false
+    });
+  });
+  return bricks;
+}
+
+export function layoutBricks(level: LevelDefinition, rules: LevelRules, config: GameConfig): Brick[] {
+  const bricks: Brick[] = [];
+  level.rows.forEach((row, rowIndex) => {
+    bricks.push(...layoutRow(row, rowY(rowIndex, rules, config), bricks.length, rules, config));
+  });
+  return bricks;
+}
+
+function buildState(
+  prev: Pick<GameState, 'config' | 'score' | 'ballCount'>,
+  mode: GameMode,
+  level: number,
+  levelData: LevelDefinition,
+  seed: number,
+  rng: Rng,
+  bonusBalls = 0
+): GameState {
+  const { config } = prev;
+  const rules = resolveRules(levelData, level, config);
+  const bricks = layoutBricks(levelData, rules, config);
+  const ballCount = (levelData.ballCount ?? prev.ballCount) + bonusBalls;
+
+  return {
+    config,
+    mode,
+    level,
+    rules,
+    status: 'playing',
+    balls: createBalls(ballCount, config.initialLaunchX, config),
+    bricks,
+    nextBrickId: bricks.length,
+    score: prev.score,
+    startScore: prev.score,
+    breakdown: { ...EMPTY_BREAKDOWN },
+    turnBreaks: 0,
+    ballCount,
+    turn: 0,
+    turnActive: false,
+    turnStartTime: 0,
+    launchX: config.initialLaunchX,
+    returnX: null,
+    launchQueue: [],
+    launchVelocity: { dx: 0, dy: 0 },
+    launchCooldown: 0,
+    shield: 0,
+    seed,
+    rng,
+    accumulator: 0,
+    time: 0,
+    revision: 0
+  };
+}
+
+// Builds the state for `level`, carrying score and ball count over from `prev`
+// unless the level sets its own starting ball count. `bonusBalls` are added on
+// top either way. Running out of levels counts as a win.
+export function startLevel(
+  prev: Pick<GameState, 'config' | 'score' | 'ballCount'>,
+  levels: LevelDefinition[],
+  level: number,
+  bonusBalls = 0
+): GameState {
+  const levelData = levels[level - 1];
+  if (!levelData) {
+    return { ...buildState(prev, 'campaign', level, { rows: [] }, 0, createRng(0), bonusBalls), status: 'won' };
+  }
+  return buildState(prev, 'campaign', level, levelData, 0, createRng(0), bonusBalls);
+}
+
+// Plays a single level that is not part of levels.json, such as the daily
+// challenge. There is no next level; clearing it ends the game.
+export function startCustomLevel(prev: Pick<GameState, 'config' | 'score' | 'ballCount'>, level: LevelDefinition): GameState {
+  return buildState(prev, 'custom', 1, level, 0, createRng(0));
+}
+
+// Starts an endless run after `levelCount` campaign levels. The same seed
+// always generates the same sequence of rows.
+export function startEndless(
+  prev: Pick<GameState, 'config' | 'score' | 'ballCount'>,
+  seed: number | string,
+  levelCount = 0,
+  bonusBalls = 0
+): GameState {
+  const rng = createRng(seed);
+  const seedValue = rng.state;
+  return buildState(prev, 'endless', levelCount + 1, generateEndlessLevel(rng), seedValue, rng, bonusBalls);
+}
+
+export function createGame(config: GameConfig, levels: LevelDefinition[], level = 1): GameState {
+  return startLevel({ config, score: 0, ballCount: config.initialBallCount }, levels, level);
+}
+
+// Sets up the first level of any kind of game
+export function startGame(config: GameConfig, levels: LevelDefinition[], start: GameStart): GameState {
+  const fresh = { config, score: 0, ballCount: config.initialBallCount };
+  switch (start.kind) {
+    case 'campaign':
+      return startLevel(fresh, levels, start.level);
+    case 'daily':
+      return startCustomLevel(fresh, generateDailyLevel(start.date));
+    case 'endless':
+      return startEndless(fresh, start.seed, levels.length);
+    case 'custom':
+      return startCustomLevel(fresh, start.level);
+  }
+}
+
+// Moves a won campaign game on to its next level. Clearing the last level rolls
+// straight into an endless run seeded with `endlessSeed`. `bonusBalls`, such as
+// a quiz bonus earned in between, are added after the next level's starting
+// count is settled, so a level that sets its own count still gets them.
+export function continueCampaign(
+  state: GameState,
+  levels: LevelDefinition[],
+  endlessSeed: number,
+  bonusBalls = 0,
+  emit: EmitEvent = NO_EVENTS
+): GameState {
+  const next = state.level < levels.length
+    ? startLevel(state, levels, state.level + 1, bonusBalls)
+    : startEndless(state, endlessSeed, levels.length, bonusBalls);
+  if (bonusBalls > 0) emit({ type: 'ballGranted', count: bonusBalls, ballCount: next.ballCount, source: 'bonus' });
+  return next;
+}
+
+export function canLaunch(state: GameState): boolean {
+  return state.status === 'playing' && !state.turnActive;
+}
+
+// ----------------- BROADPHASE -----------------
+// Collision grids are derived from the bricks, so they are kept beside the
+// state rather than in it (saves and replays never see them). A copied state
+// builds its own on first use.
+const grids = new WeakMap<GameState, BrickGrid>();
+
+// The broadphase grid for the state's bricks. Cells follow the level's brick
+// pitch.
+export function brickGrid(state: GameState): BrickGrid {
+  let grid = grids.get(state);
+  if (!grid) {
+    const { rules, config } = state;
+    grid = buildBrickGrid(
+      state.bricks,
+      0,
+      config.ceilingY,
+      rules.brickWidth + config.brickMargin,
+      rules.brickHeight + config.brickMargin,
+      rules.columns
+    );
+    grids.set(state, grid);
+  }
+  return grid;
+}
+
+// ----------------- STEP -----------------
+export function cloneState(state: GameState): GameState {
+  return {
+    ...state,
+    balls: state.balls.map(ball => ({ ...ball })),
+    bricks: state.bricks.map(brick => ({ ...brick })),
+    launchQueue: [...state.launchQueue],
+    breakdown: { ...state.breakdown },
+    rng: { ...state.rng }
+  };
+}
+
+// Fires the volley. The angle is clamped here too, so no input can send balls
+// flat or downward.
+function launch(state: GameState, requestedAngle: number, emit: EmitEvent) {
+  const { ballSpeed } = state.config;
+  const angle = clampLaunchAngle(requestedAngle);
+  state.turnActive = true;
+  state.turnStartTime = state.time;
+  state.revision++;
+  state.returnX = null;
+  state.launchVelocity = { dx: Math.cos(angle) * ballSpeed, dy: Math.sin(angle) * ballSpeed };
+  state.launchQueue = state.balls.filter(ball => !ball.launched).map(ball => ball.id);
+  state.launchCooldown = 0;
+  emit({
+    type: 'turnStarted',
+    mode: state.mode,
+    level: state.level,
+    turn: state.turn,
+    angle,
+    x: state.launchX,
+    balls: state.launchQueue.length,
+    score: state.score
+  });
+}
+
+function handleQueuedLaunches(state: GameState, dtMs: number) {
+  state.launchCooldown -= dtMs;
+  while (state.launchQueue.length > 0 && state.launchCooldown <= 0) {
+    const id = state.launchQueue.shift();
+    const ball = state.balls.find(b => b.id === id);
+    if (ball) {
+      ball.dx = state.launchVelocity.dx;
+      ball.dy = state.launchVelocity.dy;
+      ball.launched = true;
+    }
+    state.launchCooldown += state.config.launchDelay;
+  }
+}
+
+function brickInfo(brick: Brick): BrickEventInfo {
+  const info: BrickEventInfo = { brickId: brick.id, shape: brick.shape, x: brick.x, y: brick.y };
+  if (brick.powerUp !== undefined) info.powerUp = brick.powerUp;
+  return info;
+}
+
+// Common hook for every power-up: runs the effect of `brick`, if it has one,
+// for the ball that set it off.
+function triggerPowerUp(state: GameState, brick: Brick, ball: Ball, emit: EmitEvent) {
+  const powerUp = getPowerUp(brick.powerUp);
+  if (!powerUp) return;
+  state.revision++;
+  const ballCount = state.ballCount;
+  powerUp.apply({
+    state,
+    brick,
+    ball,
+    damage: (target, amount) => damageBrick(state, target, ball, amount, emit),
+    spawnBall: (x, y, dx, dy) => {
+      const id = Math.max(...state.balls.map(b => b.id)) + 1;
+      state.balls.push({ id, x, y, dx, dy, launched: true, temporary: true });
+    }
+  });
+  if (state.ballCount > ballCount) {
+    emit({ type: 'ballGranted', count: state.ballCount - ballCount, ballCount: state.ballCount, source: 'powerUp' });
+  }
+}
+
+function damageBrick(state: GameState, brick: Brick, ball: Ball, amount: number, emit: EmitEvent) {
+  if (!brick.visible) return;
+  brick.hits -= amount;
+  state.revision++;
+  emit({ type: 'brickHit', ...brickInfo(brick), hits: Math.max(0, brick.hits), ballId: ball.id });
+  if (brick.hits <= 0) {
+    brick.visible = false;
+    const grid = grids.get(state);
+    if (grid) removeFromGrid(grid, brick, state.bricks.indexOf(brick));
+    ball.chain = (ball.chain ?? 0) + 1;
+    const combo = comboBonus(brick.points, ball.chain);
+    state.score += brick.points + combo;
+    state.breakdown.bricks += brick.points;
+    state.breakdown.combo += combo;
+    state.turnBreaks++;
+    emit({ type: 'brickDestroyed', ...brickInfo(brick), points: brick.points + combo, chain: ball.chain });
+    triggerPowerUp(state, brick, ball, emit);
+  }
+}
+
+function hitBrick(state: GameState, brick: Brick, ball: Ball, emit: EmitEvent) {
+  if (brick.passThrough) {
+    brick.triggered = true;
+    emit({ type: 'brickHit', ...brickInfo(brick), hits: brick.hits, ballId: ball.id });
+    triggerPowerUp(state, brick, ball, emit);
+  } else {
+    damageBrick(state, brick, ball, ball.damage ?? 1, emit);
+  }
+}
+
+function updateBallsAndBricks(state: GameState, dtMs: number, emit: EmitEvent) {
+  const deltaSec = dtMs / 1000;
+
+  const grid = brickGrid(state);
+  // Balls spawned by power-ups during this loop start moving next tick
+  const count = state.balls.length;
+  for (let i = 0; i < count; i++) {
+    const ball = state.balls[i];
+    if (!ball.launched) continue;
+
+    const onBrickHit = (index: number) => hitBrick(state, state.bricks[index], ball, emit);
+    // Touching the floor ends the ball's combo, even when a shield bounces it
+    const onFloor = () => {
+      delete ball.chain;
+      if (state.shield <= 0) return false;
+      state.shield--;
+      return true;
+    };
+    const move = moveBall(ball, deltaSec, state.bricks, state.config, onBrickHit, onFloor, grid);
+    if (move.returned) {
+      ball.launched = false;
+      if (!ball.temporary && state.returnX === null) state.returnX = ball.x;
+    }
+  }
+}
+
+// Endless runs get a freshly generated row at the top every turn. Levels with a
+// spawn rule get one every `spawn.every` turns, cycling through the rule's rows.
+function spawnRow(state: GameState) {
+  const { spawn } = state.rules;
+  let row: BrickRow;
+  if (state.mode === 'endless') {
+    row = generateRow(state.rng, state.turn + ENDLESS_START_ROWS, state.rules.columns);
+  } else if (spawn && spawn.rows.length > 0 && state.turn % spawn.every === 0) {
+    row = spawn.rows[(state.turn / spawn.every - 1) % spawn.rows.length];
+  } else {
+    return;
+  }
+
+  const bricks = layoutRow(row, state.config.ceilingY, state.nextBrickId, state.rules, state.config);
+  state.bricks.push(...bricks);
+  state.nextBrickId += bricks.length;
+}
+
+function addBonus(state: GameState, kind: 'multiBreak' | 'underPar' | 'clear', points: number) {
+  state.score += points;
+  state.breakdown[kind] += points;
+}
+
+// Gathers the balls where the first one came back, adds any earned balls and
+// turn bonuses, then either declares the level won or drops the remaining
+// bricks one row.
+function settleTurn(state: GameState) {
+  const { config } = state;
+  state.launchX = state.returnX ?? state.launchX;
+  state.returnX = null;
+  state.turnActive = false;
+  state.launchQueue = [];
+  state.shield = 0;
+  state.turn++;
+  state.revision++;
+
+  state.balls = state.balls.filter(ball => !ball.temporary);
+  state.balls.forEach(ball => {
+    delete ball.damage;
+    delete ball.chain;
+    ball.x = state.launchX;
+    ball.y = config.launchY;
+    ball.dx = 0;
+    ball.dy = 0;
+    ball.launched = false;
+  });
+  const earned = createBalls(state.ballCount, state.launchX, config).slice(state.balls.length);
+  state.balls.push(...earned);
+
+  // Pass-through power-ups are used up once they have fired
+  state.bricks.forEach(brick => {
+    if (brick.triggered) brick.visible = false;
+  });
+
+  addBonus(state, 'multiBreak', multiBreakBonus(state.turnBreaks));
+  state.turnBreaks = 0;
+
+  // Power-ups left on the board don't have to be cleared to win
+  const solidBricks = state.bricks.filter(brick => brick.visible && !brick.passThrough);
+  if (state.mode !== 'endless' && state.bricks.length > 0 && solidBricks.length === 0) {
+    state.status = 'won';
+    addBonus(state, 'underPar', underParBonus(state.turn, state.rules.par));
+    addBonus(state, 'clear', CLEAR_BONUS);
+    return;
+  }
+
+  // Broken bricks are gone for good; keep endless boards from growing forever
+  state.bricks = state.bricks.filter(brick => brick.visible);
+  state.bricks.forEach(brick => {
+    brick.y += state.rules.dropAmount;
+  });
+  spawnRow(state);
+  // Only solid bricks reaching the loss line end the game; power-ups just drop off
+  state.bricks = state.bricks.filter(brick => !brick.passThrough || brick.y <= state.rules.lossLine);
+  // Every brick has moved, so the grid is rebuilt for the next turn
+  grids.delete(state);
+  if (state.bricks.some(b => !b.passThrough && b.y > state.rules.lossLine)) {
+    state.status = 'lost';
+  }
+}
+
+function endTurn(state: GameState, emit: EmitEvent) {
+  settleTurn(state);
+  const solid = state.bricks.filter(brick => brick.visible && !brick.passThrough);
+  emit({
+    type: 'turnEnded',
+    level: state.level,
+    turn: state.turn - 1,
+    launchX: state.launchX,
+    score: state.score,
+    lowestBrickY: solid.length > 0 ? Math.max(...solid.map(brick => brick.y)) - state.rules.lossLine : null,
+    status: state.status
+  });
+  if (state.status === 'won') {
+    emit({ type: 'levelWon', level: state.level, turns: state.turn, score: state.score });
+  } else if (state.status === 'lost') {
+    emit({ type: 'levelLost', level: state.level, turns: state.turn, score: state.score });
+  }
+}
+
+// Ends the turn early. Balls still in flight fall straight down, so if none
+// has come back yet the one closest to the floor sets the next launch point.
+function cutTurnShort(state: GameState, emit: EmitEvent) {
+  if (state.returnX === null) {
+    const lowest = state.balls
+      .filter(ball => ball.launched && !ball.temporary)
+      .reduce<Ball | null>((best, ball) => (best && best.y >= ball.y ? best : ball), null);
+    if (lowest) state.returnX = lowest.x;
+  }
+  endTurn(state, emit);
+}
+
+// One fixed-length tick of the simulation.
+function tick(state: GameState, emit: EmitEvent) {
+  handleQueuedLaunches(state, FIXED_STEP_MS);
+  updateBallsAndBricks(state, FIXED_STEP_MS, emit);
+  if (state.launchQueue.length === 0 && state.balls.every(ball => !ball.launched)) {
+    endTurn(state, emit);
+  }
+  state.time += FIXED_STEP_MS;
+}
+
+// Advances the simulation by `dtMs` milliseconds of wall-clock time. Physics runs
+// in FIXED_STEP_MS ticks, carrying any remainder over to the next call, so the
+// outcome depends only on the inputs and not on the frame rate. Never mutates `state`.
+// Everything that happens along the way is published to `emit`.
+export function step(state: GameState, dtMs: number, input: StepInput = {}, emit: EmitEvent = NO_EVENTS): GameState {
+  if (state.status !== 'playing') return state;
+  return advance(cloneState(state), dtMs, input, emit);
+}
+
+// Same as step, but updates `state` in place and returns it. For callers that
+// own their state, like the frame loop, so every ball and brick isn't copied on
+// every frame.
+export function advance(state: GameState, dtMs: number, input: StepInput = {}, emit: EmitEvent = NO_EVENTS): GameState {
+  if (state.status !== 'playing') return state;
+
+  if (input.launch && canLaunch(state)) {
+    launch(state, input.launch.angle, emit);
+  }
+
+  if (input.endTurn && state.turnActive) {
+    cutTurnShort(state, emit);
+    state.accumulator = 0;
+    return state;
+  }
+
+  if (!state.turnActive) {
+    state.accumulator = 0;
+    return state;
+  }
+
+  state.accumulator += Math.min(dtMs, MAX_FRAME_MS);
+  while (state.accumulator >= FIXED_STEP_MS && state.turnActive) {
+    tick(state, emit);
+    state.accumulator -= FIXED_STEP_MS;
+  }
+  return state;
+}
@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createConfig } from './config';
+import { advance, startGame } from './engine';
+import { GameEventBus, GameEventType, TimedEvent } from './events';
+import { LevelDefinition } from './types';
+
+const LEVEL_WON = { type: 'levelWon', level: 1, turns: 3, score: 10 } as const;
+const LEVEL_LOST = { type: 'levelLost', level: 2, turns: 5, score: 12 } as const;
+
+test('listeners get events stamped with the bus clock', () => {
+  let now = 100;
+  const bus = new GameEventBus(() => now);
+  const won: TimedEvent<'levelWon'>[] = [];
+  const any: GameEventType[] = [];
+  bus.on('levelWon', event => won.push(event));
+  bus.onAny(event => any.push(event.type));
+
+  bus.emit(LEVEL_WON);
+  now = 250;
+  bus.emit(LEVEL_LOST);
+
+  assert.deepEqual(won, [{ ...LEVEL_WON, time: 100 }]);
+  assert.deepEqual(any, ['levelWon', 'levelLost']);
+});
+
+test('unsubscribed listeners hear nothing more', () => {
+  const bus = new GameEventBus(() => 0);
+  let heard = 0;
+  const stop = bus.on('levelWon', () => heard++);
+  const stopAny = bus.onAny(() => heard++);
+
+  bus.emit(LEVEL_WON);
+  stop();
+  stopAny();
+  bus.emit(LEVEL_WON);
+  assert.equal(heard, 2);
+});
+
+test('a listener that throws does not stop the others', t => {
+  const errors = t.mock.method(console, 'error', () => {});
+  const bus = new GameEventBus(() => 0);
+  let heard = 0;
+  bus.on('levelWon', () => {
+    throw new Error('broken plugin');
+  });
+  bus.on('levelWon', () => heard++);
+  bus.onAny(() => heard++);
+
+  bus.emit(LEVEL_WON);
+  assert.equal(heard, 2);
+  assert.equal(errors.mock.callCount(), 1);
+});
+
+test('a headless turn publishes its events in order on the fake clock', () => {
+  const level: LevelDefinition = {
+    ballCount: 1,
+    columns: 1,
+    rows: [[{ shape: 'sqr', hits: 1, color: '#000000', points: 1 }]]
+  };
+  let now = 0;
+  const bus = new GameEventBus(() => now);
+  const seen: string[] = [];
+  bus.onAny(event => seen.push(`${event.type}@${event.time}`));
+
+  let state = startGame(createConfig(390, 844), [level], { kind: 'campaign', level: 1 });
+  state = advance(state, 0, { launch: { angle: -Math.PI / 2 } }, bus.emit);
+  for (let frame = 1; frame < 10000 && state.turnActive; frame++) {
+    now = frame * 16;
+    state = advance(state, 16, {}, bus.emit);
+  }
+
+  assert.equal(state.status, 'won');
+  const types = seen.map(entry => entry.split('@')[0]);
+  assert.deepEqual(types, ['turnStarted', 'brickHit', 'brickDestroyed', 'turnEnded', 'levelWon']);
+  assert.equal(seen[0], 'turnStarted@0');
+  // The brick breaks on the frame the ball reaches it, and the turn ends later
+  const times = seen.map(entry => Number(entry.split('@')[1]));
+  assert.equal(times[1], times[2]);
+  assert.ok(times[1] > 0 && times[3] > times[2] && times[4] === times[3]);
+});
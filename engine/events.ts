@@ -0,0 +1,90 @@
+import { BrickShape, GameMode, GameStatus } from './types';
+
+// Events the simulation publishes as it runs, for sound, haptics, effects and
+// analytics to react to without reaching into the physics. Positions are the
+// brick's top-left corner in screen pixels.
+export interface BrickEventInfo {
+  brickId: number;
+  shape: BrickShape;
+  x: number;
+  y: number;
+  powerUp?: string;
+}
+
+export type GameEvent =
+  // A ball struck a brick or set off a pass-through power-up; `hits` is what is
+  // left, 0 if the brick broke
+  | ({ type: 'brickHit'; hits: number; ballId: number } & BrickEventInfo)
+  // `points` includes any combo bonus; `chain` is how many bricks the ball has
+  // broken in a row
+  | ({ type: 'brickDestroyed'; points: number; chain: number } & BrickEventInfo)
+  // `count` balls were added, by a power-up or a bonus round
+  | { type: 'ballGranted'; count: number; ballCount: number; source: 'powerUp' | 'bonus' }
+  | { type: 'turnStarted'; mode: GameMode; level: number; turn: number; angle: number; x: number; balls: number; score: number }
+  // `launchX` is where the next volley will leave from. `lowestBrickY` is the
+  // lowest solid brick's y relative to the loss line (the level is lost once it
+  // is above 0), null with no solid bricks left.
+  | {
+      type: 'turnEnded';
+      level: number;
+      turn: number;
+      launchX: number;
+      score: number;
+      lowestBrickY: number | null;
+      status: GameStatus;
+    }
+  | { type: 'levelWon'; level: number; turns: number; score: number }
+  | { type: 'levelLost'; level: number; turns: number; score: number };
+
+export type GameEventType = GameEvent['type'];
+
+// An event as listeners receive it, stamped with the bus clock
+export type TimedEvent<T extends GameEventType = GameEventType> = Extract<GameEvent, { type: T }> & { time: number };
+
+export type EmitEvent = (event: GameEvent) => void;
+
+export const NO_EVENTS: EmitEvent = () => {};
+
+type Listener = (event: TimedEvent) => void;
+
+// Typed publish/subscribe hub. The clock is injectable so listeners can be
+// driven headlessly with a fake one.
+export class GameEventBus {
+  private listeners = new Map<GameEventType | '*', Set<Listener>>();
+
+  constructor(private now: () => number = Date.now) {}
+
+  // Subscribes to one event type; returns a function that unsubscribes
+  on<T extends GameEventType>(type: T, listener: (event: TimedEvent<T>) => void): () => void {
+    return this.add(type, listener as Listener);
+  }
+
+  // Subscribes to every event
+  onAny(listener: (event: TimedEvent) => void): () => void {
+    return this.add('*', listener);
+  }
+
+  // Stamps `event` with the current time and hands it to its listeners. A
+  // listener that throws is reported and skipped, so a broken plugin never
+  // stops the game.
+  emit = (event: GameEvent) => {
+    const timed = { ...event, time: this.now() } as TimedEvent;
+    for (const key of [event.type, '*'] as const) {
+      this.listeners.get(key)?.forEach(listener => {
+        try {
+          listener(timed);
+        } catch (err) {
+          console.error(`${event.type} listener failed:`, err);
+        }
+      });
+    }
+  };
+
+  private add(key: GameEventType | '*', listener: Listener): () => void {
+    if (!this.listeners.has(key)) this.listeners.set(key, new Set());
+    this.listeners.get(key)!.add(listener);
+    return () => {
+      this.listeners.get(key)?.delete(listener);
+    };
+  }
+}
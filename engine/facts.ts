@@ -0,0 +1,41 @@
+import { SubjectOption } from '../dummyFacts';
+
+// Facts shown from one subject. Facts are identified by their text, so
+// reordering or extending a subject keeps the history intact.
+export interface FactRecord {
+  // Every fact ever shown, in the order first seen
+  seen: string[];
+  // Facts shown since the subject's pool last ran out
+  cycle: string[];
+}
+
+export const EMPTY_FACT_RECORD: FactRecord = { seen: [], cycle: [] };
+
+// Picks a fact not shown in the current cycle. Once every fact has had its
+// turn a new cycle starts, skipping the fact just shown so it never appears
+// twice in a row.
+export function drawFact(
+  subject: SubjectOption,
+  record: FactRecord,
+  random: () => number = Math.random
+): { fact: string | null; record: FactRecord } {
+  const facts = subject.dummyFacts;
+  if (facts.length === 0) return { fact: null, record };
+
+  let cycle = record.cycle.filter(fact => facts.includes(fact));
+  let pool = facts.filter(fact => !cycle.includes(fact));
+  if (pool.length === 0) {
+    const last = cycle[cycle.length - 1];
+    cycle = [];
+    pool = facts.length > 1 ? facts.filter(fact => fact !== last) : facts;
+  }
+
+  const fact = pool[Math.floor(random() * pool.length)];
+  return {
+    fact,
+    record: {
+      seen: record.seen.includes(fact) ? record.seen : [...record.seen, fact],
+      cycle: [...cycle, fact]
+    }
+  };
+}
@@ -0,0 +1,54 @@
+import { MAX_ROW_WIDTH } from './levels';
+import { BrickDefinition, BrickRow, LevelDefinition } from './types';
+
+// Editor boards are ordinary level definitions whose rows are padded with null
+// cells to exactly `columns` wide, so every grid cell can be painted.
+export type LevelDraft = LevelDefinition & { columns: number };
+
+// Colors offered by the editor, darkest first
+export const BRICK_PALETTE = ['#000000', '#202020', '#404040', '#606060', '#808080', '#a0a0a0'];
+
+export const DEFAULT_DRAFT_COLUMNS = 9;
+export const DEFAULT_DRAFT_ROWS = 8;
+
+function blankRow(columns: number): BrickRow {
+  return Array.from({ length: columns }, () => null);
+}
+
+export function createBlankDraft(columns = DEFAULT_DRAFT_COLUMNS, rowCount = DEFAULT_DRAFT_ROWS): LevelDraft {
+  return { columns, rows: Array.from({ length: rowCount }, () => blankRow(columns)) };
+}
+
+// Opens an existing level for editing.
+export function draftFromLevel(level: LevelDefinition): LevelDraft {
+  const columns = Math.min(MAX_ROW_WIDTH, level.columns ?? Math.max(1, ...level.rows.map(r => r.length)));
+  return resizeDraft({ ...level, columns }, columns, Math.max(level.rows.length, 1));
+}
+
+// Grows or shrinks the grid, keeping whatever fits.
+export function resizeDraft(draft: LevelDraft, columns: number, rowCount: number): LevelDraft {
+  const rows = Array.from({ length: rowCount }, (_, r) => {
+    const row = draft.rows[r] ?? [];
+    return Array.from({ length: columns }, (_, c) => row[c] ?? null);
+  });
+  return { ...draft, columns, rows };
+}
+
+export function setCell(draft: LevelDraft, row: number, col: number, brick: BrickDefinition | null): LevelDraft {
+  const rows = draft.rows.map((cells, r) =>
+    r === row ? cells.map((cell, c) => (c === col ? brick : cell)) : cells
+  );
+  return { ...draft, rows };
+}
+
+// Converts a draft to the levels.json format: trailing empty cells and rows are
+// dropped, and `columns` is kept so the grid keeps its width.
+export function exportLevel(draft: LevelDraft): LevelDefinition {
+  const rows = draft.rows.map(row => {
+    let end = row.length;
+    while (end > 0 && row[end - 1] === null) end--;
+    return row.slice(0, end);
+  });
+  while (rows.length > 0 && rows[rows.length - 1].length === 0) rows.pop();
+  return { ...draft, rows };
+}
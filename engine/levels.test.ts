@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { loadLevel, validateLevel } from './levels';
+
+test('bricks with the retired bla shape load as squares with a warning', () => {
+  const old = {
+    rows: [[{ shape: 'bla', hits: 1, color: '#000000', points: 1 }, null]],
+    spawn: { every: 2, rows: [[{ shape: 'bla', hits: 1, color: '#000000', points: 1 }]] }
+  };
+
+  assert.deepEqual(validateLevel(old, 'level').map(issue => `${issue.severity} ${issue.path}`), [
+    'warning level.rows[0][0].shape',
+    'warning level.spawn.rows[0][0].shape'
+  ]);
+  const level = loadLevel(old);
+  assert.equal(level.rows[0][0]?.shape, 'sqr');
+  assert.equal(level.rows[0][1], null);
+  assert.equal(level.spawn?.rows[0][0]?.shape, 'sqr');
+  assert.equal(old.rows[0][0]?.shape, 'bla');
+});
+
+test('unknown shapes are still errors', () => {
+  const issues = validateLevel({ rows: [[{ shape: 'hex', hits: 1, color: '#000000', points: 1 }]] }, 'level');
+  assert.equal(issues[0].severity, 'error');
+  assert.match(issues[0].message, /unknown shape "hex", expected one of sqr, tr1, tr2, tr3, tr4, circle$/);
+});
@@ -0,0 +1,228 @@
+import { powerUpNames } from './powerUps';
+import { BRICK_SHAPES, BrickRow, BrickShape, LevelDefinition, LevelFile, PREVIEW_MODES, PreviewMode } from './types';
+
+// Beyond this many columns a brick gets narrower than a ball is wide.
+export const MAX_ROW_WIDTH = 16;
+
+const COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+// Shapes older level data may still use, and what they load as
+const RETIRED_SHAPES = new Map<unknown, BrickShape>([['bla', 'sqr']]);
+
+export interface LevelIssue {
+  severity: 'error' | 'warning';
+  path: string;
+  message: string;
+}
+
+export class LevelValidationError extends Error {
+  issues: LevelIssue[];
+
+  constructor(issues: LevelIssue[]) {
+    super(`Invalid level data:\n${issues.map(formatIssue).join('\n')}`);
+    this.name = 'LevelValidationError';
+    this.issues = issues;
+  }
+}
+
+export function formatIssue(issue: LevelIssue): string {
+  return `${issue.severity}: ${issue.path}: ${issue.message}`;
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateBrick(brick: unknown, path: string, issues: LevelIssue[]) {
+  const error = (field: string, message: string) =>
+    issues.push({ severity: 'error', path: `${path}.${field}`, message });
+
+  if (!isObject(brick)) {
+    issues.push({ severity: 'error', path, message: 'brick must be an object' });
+    return;
+  }
+
+  const replacement = RETIRED_SHAPES.get(brick.shape);
+  if (replacement) {
+    issues.push({ severity: 'warning', path: `${path}.shape`, message: `retired shape ${JSON.stringify(brick.shape)}, loaded as ${replacement}` });
+  } else if (!BRICK_SHAPES.includes(brick.shape as BrickShape)) {
+    error('shape', `unknown shape ${JSON.stringify(brick.shape)}, expected one of ${BRICK_SHAPES.join(', ')}`);
+  }
+  if (typeof brick.hits !== 'number' || !Number.isInteger(brick.hits) || brick.hits <= 0) {
+    error('hits', `must be a positive integer, got ${JSON.stringify(brick.hits)}`);
+  }
+  if (typeof brick.color !== 'string' || !COLOR_PATTERN.test(brick.color)) {
+    error('color', `must be a hex color like "#404040", got ${JSON.stringify(brick.color)}`);
+  }
+  if (typeof brick.points !== 'number' || !Number.isFinite(brick.points) || brick.points < 0) {
+    error('points', `must be a non-negative number, got ${JSON.stringify(brick.points)}`);
+  }
+  if (brick.givesBall !== undefined && typeof brick.givesBall !== 'boolean') {
+    error('givesBall', `must be true or false, got ${JSON.stringify(brick.givesBall)}`);
+  }
+  if (brick.powerUp !== undefined) {
+    const names = powerUpNames();
+    if (typeof brick.powerUp !== 'string' || !names.includes(brick.powerUp)) {
+      error('powerUp', `unknown power-up ${JSON.stringify(brick.powerUp)}, expected one of ${names.join(', ')}`);
+    } else if (brick.givesBall === true) {
+      issues.push({ severity: 'warning', path: `${path}.givesBall`, message: `ignored, the brick already has the ${brick.powerUp} power-up` });
+    }
+  }
+}
+
+function validateRows(rows: unknown[], path: string, maxWidth: number, issues: LevelIssue[]): number {
+  let brickCount = 0;
+  rows.forEach((row, rowIndex) => {
+    const rowPath = `${path}[${rowIndex}]`;
+    if (!Array.isArray(row)) {
+      issues.push({ severity: 'error', path: rowPath, message: 'row must be an array' });
+      return;
+    }
+    const bricks = row.filter(cell => cell !== null);
+    if (bricks.length === 0) {
+      issues.push({ severity: 'warning', path: rowPath, message: 'empty row' });
+    }
+    if (row.length > maxWidth) {
+      issues.push({ severity: 'error', path: rowPath, message: `row has ${row.length} bricks, at most ${maxWidth} fit` });
+    }
+    row.forEach((brick, colIndex) => {
+      // null marks an empty cell
+      if (brick !== null) validateBrick(brick, `${rowPath}[${colIndex}]`, issues);
+    });
+    brickCount += bricks.length;
+  });
+  return brickCount;
+}
+
+function validateNumber(
+  level: Record<string, unknown>,
+  field: string,
+  path: string,
+  issues: LevelIssue[],
+  { integer = false, min = 0, exclusive = true } = {}
+) {
+  const value = level[field];
+  if (value === undefined) return;
+  const ok = typeof value === 'number' && Number.isFinite(value) &&
+    (!integer || Number.isInteger(value)) && (exclusive ? value > min : value >= min);
+  if (!ok) {
+    const kind = integer ? 'an integer' : 'a number';
+    const bound = exclusive ? `greater than ${min}` : `at least ${min}`;
+    issues.push({ severity: 'error', path: `${path}.${field}`, message: `must be ${kind} ${bound}, got ${JSON.stringify(value)}` });
+  }
+}
+
+export function validateLevel(level: unknown, path: string): LevelIssue[] {
+  const issues: LevelIssue[] = [];
+
+  if (!isObject(level) || !Array.isArray(level.rows)) {
+    issues.push({ severity: 'error', path: `${path}.rows`, message: 'level must have a rows array' });
+    return issues;
+  }
+
+  if (level.name !== undefined && (typeof level.name !== 'string' || level.name.trim() === '')) {
+    issues.push({ severity: 'error', path: `${path}.name`, message: 'must be a non-empty string' });
+  }
+  validateNumber(level, 'ballCount', path, issues, { integer: true });
+  validateNumber(level, 'dropAmount', path, issues, { exclusive: false });
+  validateNumber(level, 'lossLine', path, issues);
+  validateNumber(level, 'brickHeight', path, issues);
+  validateNumber(level, 'columns', path, issues, { integer: true });
+  validateNumber(level, 'par', path, issues, { integer: true });
+  validateNumber(level, 'targetScore', path, issues, { exclusive: false });
+  if (level.preview !== undefined && !PREVIEW_MODES.includes(level.preview as PreviewMode)) {
+    issues.push({
+      severity: 'error',
+      path: `${path}.preview`,
+      message: `unknown preview ${JSON.stringify(level.preview)}, expected one of ${PREVIEW_MODES.join(', ')}`
+    });
+  }
+
+  const columns = typeof level.columns === 'number' ? Math.min(level.columns, MAX_ROW_WIDTH) : MAX_ROW_WIDTH;
+  const brickCount = validateRows(level.rows, `${path}.rows`, columns, issues);
+  if (brickCount === 0) {
+    issues.push({ severity: 'error', path: `${path}.rows`, message: 'level has no bricks' });
+  }
+
+  if (level.spawn !== undefined) {
+    const spawnPath = `${path}.spawn`;
+    if (!isObject(level.spawn) || !Array.isArray(level.spawn.rows)) {
+      issues.push({ severity: 'error', path: spawnPath, message: 'spawn must have an every count and a rows array' });
+    } else {
+      validateNumber(level.spawn, 'every', spawnPath, issues, { integer: true });
+      if (level.spawn.every === undefined) {
+        issues.push({ severity: 'error', path: `${spawnPath}.every`, message: 'missing turn interval' });
+      }
+      if (validateRows(level.spawn.rows, `${spawnPath}.rows`, columns, issues) === 0) {
+        issues.push({ severity: 'error', path: `${spawnPath}.rows`, message: 'spawn rule has no bricks' });
+      }
+    }
+  }
+
+  return issues;
+}
+
+export function validateLevelFile(data: unknown): LevelIssue[] {
+  if (!isObject(data) || !Array.isArray(data.levels)) {
+    return [{ severity: 'error', path: 'levels', message: 'expected an object with a levels array' }];
+  }
+  if (data.levels.length === 0) {
+    return [{ severity: 'error', path: 'levels', message: 'no levels defined' }];
+  }
+
+  const issues: LevelIssue[] = [];
+  const seen = new Map<string, number>();
+  data.levels.forEach((level: unknown, index: number) => {
+    const path = `levels[${index}]`;
+    issues.push(...validateLevel(level, path));
+    // Campaign stars are earned against these, so a level without them would
+    // hand its stars out with the clear
+    if (isObject(level)) {
+      ['par', 'targetScore'].filter(field => level[field] === undefined).forEach(field => {
+        issues.push({ severity: 'error', path: `${path}.${field}`, message: 'missing, campaign levels need it for their star rating' });
+      });
+    }
+
+    const key = JSON.stringify(level);
+    const original = seen.get(key);
+    if (original !== undefined) {
+      issues.push({ severity: 'warning', path, message: `identical to levels[${original}]` });
+    } else {
+      seen.set(key, index);
+    }
+  });
+
+  return issues;
+}
+
+function replaceRetiredShapes(rows: BrickRow[]): BrickRow[] {
+  return rows.map(row => row.map(brick => {
+    const shape = brick && RETIRED_SHAPES.get(brick.shape);
+    return brick && shape ? { ...brick, shape } : brick;
+  }));
+}
+
+function withCurrentShapes(level: LevelDefinition): LevelDefinition {
+  const current = { ...level, rows: replaceRetiredShapes(level.rows) };
+  if (level.spawn) current.spawn = { ...level.spawn, rows: replaceRetiredShapes(level.spawn.rows) };
+  return current;
+}
+
+// Validates raw levels.json content and returns its levels, throwing a
+// LevelValidationError listing every error found. Warnings are not fatal, and
+// bricks with a retired shape come back with the shape that replaced it.
+export function loadLevels(data: unknown): LevelDefinition[] {
+  const errors = validateLevelFile(data).filter(issue => issue.severity === 'error');
+  if (errors.length > 0) {
+    throw new LevelValidationError(errors);
+  }
+  return (data as LevelFile).levels.map(withCurrentShapes);
+}
+
+export function loadLevel(level: unknown, path = 'level'): LevelDefinition {
+  const errors = validateLevel(level, path).filter(issue => issue.severity === 'error');
+  if (errors.length > 0) {
+    throw new LevelValidationError(errors);
+  }
+  return withCurrentShapes(level as LevelDefinition);
+}
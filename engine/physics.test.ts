@@ -0,0 +1,139 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createConfig } from './config';
+import { advance, startGame } from './engine';
+import { moveBall } from './physics';
+import { Ball, Brick, LevelDefinition } from './types';
+
+const config = createConfig(390, 844);
+const r = config.ballRadius;
+const FRAME = 1 / 60;
+
+function ball(x: number, y: number, dx: number, dy: number): Ball {
+  return { id: 0, x, y, dx, dy, launched: true };
+}
+
+function brick(overrides: Partial<Brick> = {}): Brick {
+  return {
+    id: 0, shape: 'sqr', x: 100, y: 200, width: 50, height: 20, visible: true, hits: 3, color: '#000000', points: 1,
+    ...overrides
+  };
+}
+
+function assertNear(actual: number, expected: number) {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+}
+
+test('a ball bounces off the right wall', () => {
+  // 10 px this frame: 5 to the wall and 5 back
+  const moving = ball(config.width - r - 5, 400, 600, 0);
+  const move = moveBall(moving, FRAME, [], config, () => assert.fail('no bricks to hit'));
+
+  assert.equal(move.returned, false);
+  assertNear(moving.x, config.width - r - 5);
+  assert.equal(moving.dx, -600);
+});
+
+test('a ball bounces off the underside of a brick and reports one hit', () => {
+  const hits: number[] = [];
+  // 20 px up this frame, meeting the brick's bottom edge (y = 220) after 20 - r
+  const moving = ball(125, 240, 0, -1200);
+  moveBall(moving, FRAME, [brick()], config, index => hits.push(index));
+
+  assert.deepEqual(hits, [0]);
+  assertNear(moving.y, 220 + 2 * r);
+  assert.equal(moving.dy, 1200);
+  assert.equal(moving.dx, 0);
+});
+
+test('a ball flies through a pass-through brick without turning', () => {
+  const hits: number[] = [];
+  const moving = ball(125, 240, 0, -1200);
+  moveBall(moving, FRAME, [brick({ passThrough: true })], config, index => hits.push(index));
+
+  assert.deepEqual(hits, [0]);
+  assertNear(moving.y, 220);
+  assert.equal(moving.dy, -1200);
+});
+
+// Shaped bricks below sit in a 40 px square cell, so triangle hypotenuses run at 45 degrees
+const CELL = { x: 100, y: 200, width: 40, height: 40 };
+
+test('a ball dropped onto a lower triangle leaves sideways along the floor of the cell', () => {
+  const right = ball(120, 200, 0, 1200);
+  moveBall(right, FRAME, [brick({ ...CELL, shape: 'tr3' })], config, () => {});
+  assertNear(right.dx, 1200);
+  assertNear(right.dy, 0);
+
+  const left = ball(120, 200, 0, 1200);
+  moveBall(left, FRAME, [brick({ ...CELL, shape: 'tr4' })], config, () => {});
+  assertNear(left.dx, -1200);
+  assertNear(left.dy, 0);
+});
+
+test('a ball crossing the empty half of an upper triangle is not deflected', () => {
+  // Both paths run parallel to the hypotenuse, 20 px / sqrt 2 clear of it
+  const downLeft = ball(145, 215, -900, 900);
+  moveBall(downLeft, FRAME, [brick({ ...CELL, shape: 'tr1' })], config, () => assert.fail('tr1 was hit'));
+  assertNear(downLeft.x, 130);
+  assertNear(downLeft.y, 230);
+  assert.equal(downLeft.dx, -900);
+
+  const downRight = ball(95, 215, 900, 900);
+  moveBall(downRight, FRAME, [brick({ ...CELL, shape: 'tr2' })], config, () => assert.fail('tr2 was hit'));
+  assertNear(downRight.x, 110);
+  assertNear(downRight.y, 230);
+  assert.equal(downRight.dx, 900);
+});
+
+test('a circle brick reflects along its radius and has no square corners', () => {
+  // Meeting the circle 45 degrees up its left side turns a falling ball sideways
+  const offset = (20 + r) / Math.SQRT2;
+  const falling = ball(120 - offset, 210 - offset, 0, 1200);
+  const hits: number[] = [];
+  moveBall(falling, FRAME, [brick({ ...CELL, shape: 'circle' })], config, index => hits.push(index));
+  assert.deepEqual(hits, [0]);
+  assertNear(falling.dx, -1200);
+  assertNear(falling.dy, 0);
+
+  // This path cuts the top-left corner of the cell, clipping a square brick but missing the circle
+  const k = 340 - (21 + r) * Math.SQRT2;
+  const square = ball(95, k - 95, 900, -900);
+  let squareHit = false;
+  moveBall(square, FRAME, [brick({ ...CELL })], config, () => {
+    squareHit = true;
+  });
+  assert.ok(squareHit);
+
+  const round = ball(95, k - 95, 900, -900);
+  moveBall(round, FRAME, [brick({ ...CELL, shape: 'circle' })], config, () => assert.fail('circle was hit'));
+  assertNear(round.x, 110);
+  assertNear(round.y, k - 110);
+});
+
+test('a ball returns at the launch line unless the floor bounces it', () => {
+  const returning = ball(100, config.launchY - 5, 0, 600);
+  assert.equal(moveBall(returning, FRAME, [], config, () => {}).returned, true);
+  assert.equal(returning.y, config.launchY);
+
+  const shielded = ball(100, config.launchY - 5, 0, 600);
+  assert.equal(moveBall(shielded, FRAME, [], config, () => {}, () => true).returned, false);
+  assertNear(shielded.y, config.launchY - 5);
+  assert.equal(shielded.dy, -600);
+});
+
+test('one ball fired straight up takes one hit off the brick above it and comes back', () => {
+  const level: LevelDefinition = {
+    ballCount: 1,
+    columns: 1,
+    rows: [[{ shape: 'sqr', hits: 2, color: '#000000', points: 1 }]]
+  };
+  let state = startGame(config, [level], { kind: 'campaign', level: 1 });
+  state = advance(state, 0, { launch: { angle: -Math.PI / 2 } });
+  for (let i = 0; i < 10000 && state.turnActive; i++) state = advance(state, 16);
+
+  assert.equal(state.turnActive, false);
+  assert.equal(state.turn, 1);
+  assert.equal(state.bricks[0].hits, 1);
+  assert.equal(state.score, 0);
+});
@@ -0,0 +1,305 @@
+import { BrickGrid, queryGrid } from './broadphase';
+import { brickCircle, brickPolygon, Point } from './shapes';
+import { Ball, Brick, GameConfig } from './types';
+
+// Upper bound on contacts resolved for one ball in one fixed step. A ball wedged
+// between bricks simply loses the rest of its step instead of looping forever.
+const MAX_CONTACTS_PER_STEP = 8;
+// Contacts this close to the start of a sweep still count, so a ball resting on a
+// surface cannot sink into it through rounding error.
+const EPSILON = 1e-6;
+// Slack around a sweep's bounding box when asking the broadphase for bricks,
+// far more than EPSILON of any sweep
+const GRID_MARGIN = 1;
+
+export interface Contact {
+  // Fraction of the sweep, 0..1, at which the ball first touches the surface
+  t: number;
+  nx: number;
+  ny: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function earlier(best: Contact | null, t: number, nx: number, ny: number): Contact | null {
+  if (t < -EPSILON || t > 1) return best;
+  if (best && best.t <= t) return best;
+  return { t: Math.max(0, t), nx, ny };
+}
+
+// Sweep of a point against a circle; used for rect corners and round bricks.
+export function sweepCircle(
+  px: number, py: number, dx: number, dy: number,
+  cx: number, cy: number, radius: number
+): Contact | null {
+  const ox = px - cx;
+  const oy = py - cy;
+  const a = dx * dx + dy * dy;
+  const b = 2 * (ox * dx + oy * dy);
+  const c = ox * ox + oy * oy - radius * radius;
+  if (a === 0) return null;
+  const disc = b * b - 4 * a * c;
+  if (disc < 0) return null;
+  const t = (-b - Math.sqrt(disc)) / (2 * a);
+  if (t < -EPSILON || t > 1) return null;
+  const hx = ox + dx * t;
+  const hy = oy + dy * t;
+  const len = Math.hypot(hx, hy) || 1;
+  const nx = hx / len;
+  const ny = hy / len;
+  // Only a ball moving into the surface collides with it
+  if (dx * nx + dy * ny >= 0) return null;
+  return { t: Math.max(0, t), nx, ny };
+}
+
+// Earliest contact of a circle of radius `r` moving by (dx, dy) with an
+// axis-aligned rectangle, i.e. a point sweep against the rectangle grown by `r`
+// with rounded corners.
+export function sweepCircleRect(
+  px: number, py: number, dx: number, dy: number, r: number, rect: Rect
+): Contact | null {
+  const left = rect.x;
+  const right = rect.x + rect.width;
+  const top = rect.y;
+  const bottom = rect.y + rect.height;
+  let best: Contact | null = null;
+
+  if (dx > 0) {
+    const t = (left - r - px) / dx;
+    const hy = py + dy * t;
+    if (hy >= top && hy <= bottom) best = earlier(best, t, -1, 0);
+  } else if (dx < 0) {
+    const t = (right + r - px) / dx;
+    const hy = py + dy * t;
+    if (hy >= top && hy <= bottom) best = earlier(best, t, 1, 0);
+  }
+
+  if (dy > 0) {
+    const t = (top - r - py) / dy;
+    const hx = px + dx * t;
+    if (hx >= left && hx <= right) best = earlier(best, t, 0, -1);
+  } else if (dy < 0) {
+    const t = (bottom + r - py) / dy;
+    const hx = px + dx * t;
+    if (hx >= left && hx <= right) best = earlier(best, t, 0, 1);
+  }
+
+  for (const [cx, cy] of [[left, top], [right, top], [left, bottom], [right, bottom]]) {
+    const hit = sweepCircle(px, py, dx, dy, cx, cy, r);
+    if (hit) best = earlier(best, hit.t, hit.nx, hit.ny);
+  }
+
+  return best;
+}
+
+// Earliest contact of a circle of radius `r` with a convex polygon: each edge is
+// pushed out by `r` along its outward normal and each vertex becomes a circle.
+export function sweepCirclePolygon(
+  px: number, py: number, dx: number, dy: number, r: number, vertices: Point[]
+): Contact | null {
+  let cx = 0;
+  let cy = 0;
+  for (const [vx, vy] of vertices) {
+    cx += vx / vertices.length;
+    cy += vy / vertices.length;
+  }
+
+  let best: Contact | null = null;
+  for (let i = 0; i < vertices.length; i++) {
+    const [ax, ay] = vertices[i];
+    const [bx, by] = vertices[(i + 1) % vertices.length];
+    const ex = bx - ax;
+    const ey = by - ay;
+    const len = Math.hypot(ex, ey);
+    if (len === 0) continue;
+
+    let nx = ey / len;
+    let ny = -ex / len;
+    if ((ax - cx) * nx + (ay - cy) * ny < 0) {
+      nx = -nx;
+      ny = -ny;
+    }
+
+    const approach = dx * nx + dy * ny;
+    if (approach < 0) {
+      const t = (r - ((px - ax) * nx + (py - ay) * ny)) / approach;
+      const along = ((px + dx * t - ax) * ex + (py + dy * t - ay) * ey) / len;
+      if (along >= 0 && along <= len) best = earlier(best, t, nx, ny);
+    }
+
+    const corner = sweepCircle(px, py, dx, dy, ax, ay, r);
+    if (corner) best = earlier(best, corner.t, corner.nx, corner.ny);
+  }
+
+  return best;
+}
+
+// Earliest contact with a brick's true outline.
+export function sweepBrick(
+  px: number, py: number, dx: number, dy: number, r: number, brick: Brick
+): Contact | null {
+  const circle = brickCircle(brick);
+  if (circle) {
+    return sweepCircle(px, py, dx, dy, circle.cx, circle.cy, circle.radius + r);
+  }
+  const polygon = brickPolygon(brick);
+  if (polygon) {
+    return sweepCirclePolygon(px, py, dx, dy, r, polygon);
+  }
+  return sweepCircleRect(px, py, dx, dy, r, brick);
+}
+
+export interface BallMove {
+  returned: boolean;
+}
+
+export type Surface =
+  | { kind: 'wall' }
+  | { kind: 'floor' }
+  | { kind: 'brick'; index: number };
+
+export type Candidate = Contact & { surface: Surface };
+
+function pick(best: Candidate | null, hit: Contact | null, surface: Surface): Candidate | null {
+  if (!hit || (best && best.t <= hit.t)) return best;
+  return { ...hit, surface };
+}
+
+// Earliest thing the ball runs into while moving by (dx, dy), if any. With a
+// grid only the bricks it lists near the sweep are tested; the answer is the
+// same as testing them all.
+export function findContact(
+  ball: Ball, dx: number, dy: number, bricks: Brick[], config: GameConfig, skip: Set<number>, grid?: BrickGrid
+): Candidate | null {
+  const r = config.ballRadius;
+  let best: Candidate | null = null;
+
+  // Walls
+  if (dx < 0) best = pick(best, earlier(null, (r - ball.x) / dx, 1, 0), { kind: 'wall' });
+  if (dx > 0) best = pick(best, earlier(null, (config.width - r - ball.x) / dx, -1, 0), { kind: 'wall' });
+  if (dy < 0) best = pick(best, earlier(null, (config.ceilingY + r - ball.y) / dy, 0, 1), { kind: 'wall' });
+  // Bottom return line
+  if (dy > 0) best = pick(best, earlier(null, (config.launchY - ball.y) / dy, 0, -1), { kind: 'floor' });
+
+  // Bricks
+  const testBrick = (j: number) => {
+    const brick = bricks[j];
+    if (!brick.visible || skip.has(j)) return;
+    best = pick(best, sweepBrick(ball.x, ball.y, dx, dy, r, brick), { kind: 'brick', index: j });
+  };
+  if (grid) {
+    const reach = r + GRID_MARGIN;
+    queryGrid(
+      grid,
+      Math.min(ball.x, ball.x + dx) - reach,
+      Math.min(ball.y, ball.y + dy) - reach,
+      Math.max(ball.x, ball.x + dx) + reach,
+      Math.max(ball.y, ball.y + dy) + reach
+    ).forEach(testBrick);
+  } else {
+    for (let j = 0; j < bricks.length; j++) testBrick(j);
+  }
+
+  return best;
+}
+
+// Advances a single ball by `deltaSec`, resolving every wall, ceiling and brick
+// contact along the way in time order. The ball is updated in place and
+// `onBrickHit` runs as each brick is struck, so a brick it destroys no longer
+// blocks the rest of the sweep. Pass-through bricks report the ball entering
+// them but do not deflect it. `onFloor` decides whether the ball bounces off
+// the launch line instead of returning. `grid`, if given, must list the
+// visible bricks (see engine/broadphase.ts).
+export function moveBall(
+  ball: Ball,
+  deltaSec: number,
+  bricks: Brick[],
+  config: GameConfig,
+  onBrickHit: (index: number) => void,
+  onFloor: () => boolean = () => false,
+  grid?: BrickGrid
+): BallMove {
+  let remaining = 1;
+  // Pass-through bricks already entered during this move
+  const passed = new Set<number>();
+
+  for (let i = 0; i < MAX_CONTACTS_PER_STEP && remaining > 0; i++) {
+    const dx = ball.dx * deltaSec * remaining;
+    const dy = ball.dy * deltaSec * remaining;
+
+    const hit = findContact(ball, dx, dy, bricks, config, passed, grid);
+    if (!hit) {
+      ball.x += dx;
+      ball.y += dy;
+      return { returned: false };
+    }
+
+    ball.x += dx * hit.t;
+    ball.y += dy * hit.t;
+    remaining *= 1 - hit.t;
+
+    if (hit.surface.kind === 'floor' && !onFloor()) {
+      ball.y = config.launchY;
+      return { returned: true };
+    }
+
+    if (hit.surface.kind === 'brick' && bricks[hit.surface.index].passThrough) {
+      passed.add(hit.surface.index);
+      onBrickHit(hit.surface.index);
+      continue;
+    }
+
+    // Reflect the velocity about the contact normal
+    const dot = ball.dx * hit.nx + ball.dy * hit.ny;
+    ball.dx -= 2 * dot * hit.nx;
+    ball.dy -= 2 * dot * hit.ny;
+
+    if (hit.surface.kind === 'brick') {
+      onBrickHit(hit.surface.index);
+    }
+  }
+
+  return { returned: false };
+}
+
+// The path a ball fired from (x, y) in direction (dx, dy) would take, found with
+// the same contact rules as moveBall. It reflects off at most `maxBounces` walls
+// and ends at the first solid brick or the floor; pass-through bricks are flown
+// through. Returns the start point followed by each contact point.
+export function tracePath(
+  x: number, y: number, dx: number, dy: number, bricks: Brick[], config: GameConfig, maxBounces: number
+): Point[] {
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return [[x, y]];
+  // Far enough to cross the whole play field in one sweep
+  const reach = 2 * Math.hypot(config.width, config.launchY);
+  const ball: Ball = { id: -1, x, y, dx: (dx / length) * reach, dy: (dy / length) * reach, launched: true };
+  const points: Point[] = [[x, y]];
+  const passed = new Set<number>();
+
+  for (let bounces = 0; bounces <= maxBounces;) {
+    const hit = findContact(ball, ball.dx, ball.dy, bricks, config, passed);
+    if (!hit) break;
+    ball.x += ball.dx * hit.t;
+    ball.y += ball.dy * hit.t;
+
+    if (hit.surface.kind === 'brick' && bricks[hit.surface.index].passThrough) {
+      passed.add(hit.surface.index);
+      continue;
+    }
+    points.push([ball.x, ball.y]);
+    if (hit.surface.kind !== 'wall') break;
+
+    const dot = ball.dx * hit.nx + ball.dy * hit.ny;
+    ball.dx -= 2 * dot * hit.nx;
+    ball.dy -= 2 * dot * hit.ny;
+    bounces++;
+  }
+
+  return points;
+}
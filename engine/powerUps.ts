@@ -0,0 +1,121 @@
+import { nextFloat } from './random';
+import { Ball, Brick, GameState } from './types';
+
+// Power-up bricks run an effect when a ball destroys them or, for pass-through
+// power-ups, each time a ball flies into them. Effects are registered by name
+// and levels refer to them through a brick's `powerUp` field, so adding one
+// never touches the collision loop.
+export interface PowerUpContext {
+  state: GameState;
+  brick: Brick;
+  ball: Ball;
+  // Deals damage to another brick, breaking it (and firing its power-up) at zero
+  damage: (target: Brick, amount: number) => void;
+  // Adds a ball that flies for the rest of the turn and is gone after it
+  spawnBall: (x: number, y: number, dx: number, dy: number) => void;
+}
+
+export interface PowerUp {
+  // Short glyph drawn on the brick in place of its hit count
+  label: string;
+  // Balls fly through the brick instead of bouncing off it. Pass-through
+  // bricks take no damage and are used up at the end of any turn they fired in.
+  passThrough: boolean;
+  apply: (ctx: PowerUpContext) => void;
+}
+
+const registry = new Map<string, PowerUp>();
+
+export function registerPowerUp(name: string, powerUp: PowerUp) {
+  registry.set(name, powerUp);
+}
+
+export function getPowerUp(name: string | undefined): PowerUp | undefined {
+  return name === undefined ? undefined : registry.get(name);
+}
+
+export function powerUpNames(): string[] {
+  return [...registry.keys()];
+}
+
+// Balls that take part in a floor shield bounce off the launch line this many
+// times in total before the shield is spent.
+export const SHIELD_CHARGES = 10;
+
+// ----------------- BUILT-IN POWER-UPS -----------------
+function sameRow(a: Brick, b: Brick) {
+  return Math.abs(a.y - b.y) < a.height / 2;
+}
+
+function sameColumn(a: Brick, b: Brick) {
+  return Math.abs(a.x - b.x) < a.width / 2;
+}
+
+function laser(label: string, inLine: (a: Brick, b: Brick) => boolean): PowerUp {
+  return {
+    label,
+    passThrough: true,
+    apply: ({ state, brick, damage }) => {
+      state.bricks
+        .filter(other => other !== brick && other.visible && !other.passThrough && inLine(brick, other))
+        .forEach(other => damage(other, 1));
+    }
+  };
+}
+
+// The classic pickup; `givesBall: true` is shorthand for it
+registerPowerUp('extraBall', {
+  label: '+1',
+  passThrough: false,
+  apply: ({ state }) => {
+    state.ballCount++;
+  }
+});
+
+registerPowerUp('laserRow', laser('—', sameRow));
+registerPowerUp('laserColumn', laser('|', sameColumn));
+
+// Sends a copy of the ball off at 30 degrees to it. Copies don't split again,
+// or a copy spawned inside the brick would keep setting it off.
+registerPowerUp('split', {
+  label: 'Y',
+  passThrough: true,
+  apply: ({ ball, spawnBall }) => {
+    if (ball.temporary) return;
+    const angle = Math.PI / 6;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    spawnBall(ball.x, ball.y, ball.dx * cos - ball.dy * sin, ball.dx * sin + ball.dy * cos);
+  }
+});
+
+// Turns the ball in a random direction, never closer than ~27 degrees to level
+registerPowerUp('bounce', {
+  label: '?',
+  passThrough: true,
+  apply: ({ state, ball }) => {
+    const speed = Math.hypot(ball.dx, ball.dy);
+    const angle = (0.15 + nextFloat(state.rng) * 0.7) * Math.PI * (nextFloat(state.rng) < 0.5 ? -1 : 1);
+    ball.dx = Math.cos(angle) * speed;
+    ball.dy = Math.sin(angle) * speed;
+  }
+});
+
+// Balls bounce off the launch line instead of returning until the charges run
+// out or the turn ends
+registerPowerUp('shield', {
+  label: '_',
+  passThrough: true,
+  apply: ({ state }) => {
+    state.shield = SHIELD_CHARGES;
+  }
+});
+
+// The ball that breaks this brick hits twice as hard for the rest of the turn
+registerPowerUp('extraDamage', {
+  label: 'x2',
+  passThrough: false,
+  apply: ({ ball }) => {
+    ball.damage = (ball.damage ?? 1) * 2;
+  }
+});
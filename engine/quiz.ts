@@ -0,0 +1,60 @@
+import { QuizQuestion, SubjectOption } from '../dummyFacts';
+
+// Balls added to the next level for a right answer
+export const QUIZ_BONUS_BALLS = 3;
+
+// Options shown for a multiple-choice question, the answer included
+const CHOICE_COUNT = 4;
+
+export interface Quiz {
+  subjectId: string;
+  prompt: string;
+  options: string[];
+  // Index into options
+  correct: number;
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+// Wrong answers for a multiple-choice question: the authored ones if there are
+// any, otherwise the answers to the subject's other multiple-choice questions.
+function distractors(question: QuizQuestion & { kind: 'choice' }, subject: SubjectOption, random: () => number): string[] {
+  if (question.wrongAnswers && question.wrongAnswers.length > 0) {
+    return shuffle(question.wrongAnswers, random).slice(0, CHOICE_COUNT - 1);
+  }
+  const others = (subject.questions ?? [])
+    .filter((other): other is QuizQuestion & { kind: 'choice' } => other.kind === 'choice')
+    .map(other => other.answer)
+    .filter(answer => answer !== question.answer);
+  return shuffle([...new Set(others)], random).slice(0, CHOICE_COUNT - 1);
+}
+
+// Picks a question from `subject` and lays out its options, or returns null if
+// the subject has no usable questions.
+export function buildQuiz(subject: SubjectOption, random: () => number = Math.random): Quiz | null {
+  const questions = subject.questions ?? [];
+  if (questions.length === 0) return null;
+  const question = questions[Math.floor(random() * questions.length)];
+
+  if (question.kind === 'trueFalse') {
+    return {
+      subjectId: subject.id,
+      prompt: `True or false: ${question.statement}`,
+      options: ['True', 'False'],
+      correct: question.answer ? 0 : 1
+    };
+  }
+
+  const wrong = distractors(question, subject, random);
+  // A question nothing can be borrowed for would have only one option
+  if (wrong.length === 0) return null;
+  const options = shuffle([question.answer, ...wrong], random);
+  return { subjectId: subject.id, prompt: question.prompt, options, correct: options.indexOf(question.answer) };
+}
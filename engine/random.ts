@@ -0,0 +1,38 @@
+// Small seeded PRNG (mulberry32). The whole generator state is one uint32 kept
+// in a plain object, so it can live inside GameState and be cloned or saved
+// along with everything else.
+export interface Rng {
+  state: number;
+}
+
+// String seeds are hashed (FNV-1a) so dates and share codes can seed a run.
+export function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function createRng(seed: number | string): Rng {
+  return { state: typeof seed === 'string' ? hashSeed(seed) : seed >>> 0 };
+}
+
+// Uniform float in [0, 1)
+export function nextFloat(rng: Rng): number {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+// Uniform integer in [min, max]
+export function nextInt(rng: Rng, min: number, max: number): number {
+  return min + Math.floor(nextFloat(rng) * (max - min + 1));
+}
+
+export function pickOne<T>(rng: Rng, items: readonly T[]): T {
+  return items[Math.floor(nextFloat(rng) * items.length)];
+}
@@ -0,0 +1,29 @@
+import { GameState, LevelRules } from './types';
+
+export type Stars = 0 | 1 | 2 | 3;
+
+export interface LevelResult {
+  won: boolean;
+  turns: number;
+  score: number;
+}
+
+// Outcome of the current level; `score` only counts points scored in this level.
+export function levelResult(state: GameState): LevelResult {
+  return { won: state.status === 'won', turns: state.turn, score: state.score - state.startScore };
+}
+
+// One star for clearing the level, one for doing it within par and one for
+// reaching the level's target score. A level without a par or target score
+// gives that star away with the clear.
+export function starRating(result: LevelResult, rules: Pick<LevelRules, 'par' | 'targetScore'>): Stars {
+  if (!result.won) return 0;
+  let stars = 1;
+  if (rules.par === null || result.turns <= rules.par) stars++;
+  if (rules.targetScore === null || result.score >= rules.targetScore) stars++;
+  return stars as Stars;
+}
+
+export function formatStars(stars: Stars): string {
+  return '★'.repeat(stars) + '☆'.repeat(3 - stars);
+}
@@ -0,0 +1,280 @@
+import { createConfig } from './config';
+import { canLaunch, continueCampaign, FIXED_STEP_MS, startGame, step } from './engine';
+import { EmitEvent, NO_EVENTS } from './events';
+import { isObject, loadLevel } from './levels';
+import { GameStart, GameState, GameStatus, LevelDefinition, StepInput } from './types';
+
+// A replay is everything needed to play a game again tick for tick: the screen
+// size the engine config was built for, how the game started, and every input
+// that changed the outcome. Launches only happen between turns, so they are
+// keyed by turn; ending a turn early happens mid-turn, so it also records the
+// simulation time. `x` is the launch point at the time, kept only to detect a
+// replay drifting from the original game.
+export const REPLAY_VERSION = 3;
+
+export type ReplayEvent =
+  | { type: 'launch'; turn: number; angle: number; x: number }
+  | { type: 'endTurn'; turn: number; time: number }
+  // Moved on from a won campaign level, with any bonus balls earned in between;
+  // the seed is used if that starts an endless run
+  | { type: 'next'; seed: number; bonusBalls: number };
+
+export interface ReplayResult {
+  status: GameStatus;
+  level: number;
+  turn: number;
+  score: number;
+}
+
+export interface Replay {
+  width: number;
+  height: number;
+  start: GameStart;
+  events: ReplayEvent[];
+  // How the recorded game ended, if it did; checked when the replay is verified
+  result?: ReplayResult;
+}
+
+export class ReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayError';
+  }
+}
+
+// ----------------- RECORDING -----------------
+export function createReplay(width: number, height: number, start: GameStart): Replay {
+  return { width, height, start, events: [] };
+}
+
+// Appends whatever `input` did when it was applied to `prev`. Inputs the engine
+// ignored (a launch mid-turn, ending a turn between turns) are not recorded.
+export function recordStep(replay: Replay, prev: GameState, input: StepInput): Replay {
+  const events: ReplayEvent[] = [];
+  const launched = input.launch !== undefined && canLaunch(prev);
+  if (launched) {
+    events.push({ type: 'launch', turn: prev.turn, angle: input.launch!.angle, x: prev.launchX });
+  }
+  if (input.endTurn && prev.status === 'playing' && (prev.turnActive || launched)) {
+    events.push({ type: 'endTurn', turn: prev.turn, time: prev.time });
+  }
+  return events.length > 0 ? { ...replay, events: [...replay.events, ...events] } : replay;
+}
+
+export function recordNextLevel(replay: Replay, seed: number, bonusBalls = 0): Replay {
+  return { ...replay, events: [...replay.events, { type: 'next', seed, bonusBalls }] };
+}
+
+export function finishReplay(replay: Replay, state: GameState): Replay {
+  return { ...replay, result: replayResult(state) };
+}
+
+export function replayResult(state: GameState): ReplayResult {
+  return { status: state.status, level: state.level, turn: state.turn, score: state.score };
+}
+
+// ----------------- PLAYBACK -----------------
+export interface ReplayCursor {
+  replay: Replay;
+  state: GameState;
+  // Next event to apply
+  index: number;
+}
+
+export function startReplay(replay: Replay, levels: LevelDefinition[]): ReplayCursor {
+  const config = createConfig(replay.width, replay.height);
+  return { replay, state: startGame(config, levels, replay.start), index: 0 };
+}
+
+// True once every event has been applied and the last turn has played out
+export function replayFinished(cursor: ReplayCursor): boolean {
+  const { state, index, replay } = cursor;
+  if (state.turnActive) return false;
+  if (index >= replay.events.length) return true;
+  const event = replay.events[index];
+  return state.status === 'lost' || (state.status === 'won' && event.type !== 'next');
+}
+
+// Plays the replay forward by `dtMs` of simulation time. Turns advance in
+// FIXED_STEP_MS slices so an early end of turn lands on exactly the tick it was
+// recorded on. Game events are published to `emit` as they play out.
+// Throws a ReplayError if the game no longer matches the recording.
+export function advanceReplay(
+  cursor: ReplayCursor,
+  dtMs: number,
+  levels: LevelDefinition[],
+  emit: EmitEvent = NO_EVENTS
+): ReplayCursor {
+  const { replay } = cursor;
+  let { state, index } = cursor;
+  const event = replay.events[index];
+
+  if (state.status === 'won' && event?.type === 'next') {
+    const next = continueCampaign(state, levels, event.seed, event.bonusBalls, emit);
+    return { replay, state: next, index: index + 1 };
+  }
+
+  if (canLaunch(state)) {
+    if (!event) return cursor;
+    if (event.type !== 'launch') {
+      throw new ReplayError(`out of sync at turn ${state.turn}: expected a launch, recording has a ${event.type}`);
+    }
+    if (event.turn !== state.turn || event.x !== state.launchX) {
+      throw new ReplayError(
+        `out of sync at turn ${state.turn}: recorded launch from x=${event.x} on turn ${event.turn}, game is at x=${state.launchX}`
+      );
+    }
+    state = step(state, 0, { launch: { angle: event.angle } }, emit);
+    index++;
+  }
+
+  let remaining = dtMs;
+  while (state.turnActive) {
+    const next = replay.events[index];
+    if (next?.type === 'endTurn' && next.turn === state.turn && state.time >= next.time) {
+      state = step(state, 0, { endTurn: true }, emit);
+      index++;
+      break;
+    }
+    if (remaining <= 0) break;
+    const slice = Math.min(remaining, FIXED_STEP_MS);
+    state = step(state, slice, {}, emit);
+    remaining -= slice;
+  }
+
+  return { replay, state, index };
+}
+
+// Plays a whole replay headlessly and returns the final state. Throws a
+// ReplayError if it goes out of sync, has events left over once the game is
+// over, or ends differently from its recorded result.
+export function runReplay(replay: Replay, levels: LevelDefinition[]): GameState {
+  let cursor = startReplay(replay, levels);
+  while (!replayFinished(cursor)) {
+    cursor = advanceReplay(cursor, 1000, levels);
+  }
+
+  const leftover = replay.events.length - cursor.index;
+  if (leftover > 0) {
+    throw new ReplayError(`game ended on turn ${cursor.state.turn} with ${leftover} recorded event(s) left`);
+  }
+  if (replay.result) {
+    const actual = replayResult(cursor.state);
+    const expected = replay.result;
+    if (actual.status !== expected.status || actual.level !== expected.level ||
+      actual.turn !== expected.turn || actual.score !== expected.score) {
+      throw new ReplayError(`recorded result ${JSON.stringify(expected)} but replay gives ${JSON.stringify(actual)}`);
+    }
+  }
+  return cursor.state;
+}
+
+// ----------------- FILE FORMAT -----------------
+// Replay files are JSON with each event packed into a short tuple:
+//   ["l", turn, angle, x]   ["e", turn, time]   ["n", seed, bonus balls]
+// The bonus is left off when there is none.
+type PackedEvent = ['l', number, number, number] | ['e', number, number] | ['n', number] | ['n', number, number];
+
+interface ReplayFile {
+  v: typeof REPLAY_VERSION;
+  w: number;
+  h: number;
+  start: GameStart;
+  e: PackedEvent[];
+  r?: ReplayResult;
+}
+
+function packEvent(event: ReplayEvent): PackedEvent {
+  switch (event.type) {
+    case 'launch':
+      return ['l', event.turn, event.angle, event.x];
+    case 'endTurn':
+      return ['e', event.turn, event.time];
+    case 'next':
+      return event.bonusBalls > 0 ? ['n', event.seed, event.bonusBalls] : ['n', event.seed];
+  }
+}
+
+function unpackEvent(packed: unknown, index: number): ReplayEvent {
+  const fail = () => new ReplayError(`event ${index} is malformed: ${JSON.stringify(packed)}`);
+  if (!Array.isArray(packed) || !packed.slice(1).every(value => typeof value === 'number' && Number.isFinite(value))) {
+    throw fail();
+  }
+  const [tag, a, b, c] = packed;
+  if (tag === 'l' && packed.length === 4) return { type: 'launch', turn: a, angle: b, x: c };
+  if (tag === 'e' && packed.length === 3) return { type: 'endTurn', turn: a, time: b };
+  if (tag === 'n' && packed.length === 2) return { type: 'next', seed: a, bonusBalls: 0 };
+  if (tag === 'n' && packed.length === 3) return { type: 'next', seed: a, bonusBalls: b };
+  throw fail();
+}
+
+export function encodeReplay(replay: Replay): string {
+  const file: ReplayFile = {
+    v: REPLAY_VERSION,
+    w: replay.width,
+    h: replay.height,
+    start: replay.start,
+    e: replay.events.map(packEvent)
+  };
+  if (replay.result) file.r = replay.result;
+  return JSON.stringify(file);
+}
+
+const GAME_STATUSES: GameStatus[] = ['playing', 'won', 'lost'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function decodeStart(start: unknown): GameStart {
+  const fail = () => new ReplayError(`replay has an invalid start: ${JSON.stringify(start)}`);
+  if (!isObject(start)) throw new ReplayError('replay is missing how the game started');
+  switch (start.kind) {
+    case 'campaign':
+      if (!isCount(start.level) || start.level < 1) throw fail();
+      return { kind: 'campaign', level: start.level };
+    case 'endless':
+      if (typeof start.seed !== 'number' || !Number.isFinite(start.seed)) throw fail();
+      return { kind: 'endless', seed: start.seed };
+    case 'daily':
+      if (typeof start.date !== 'string' || !DATE_PATTERN.test(start.date)) throw fail();
+      return { kind: 'daily', date: start.date };
+    case 'custom':
+      return { kind: 'custom', level: loadLevel(start.level, 'start.level') };
+    default:
+      throw fail();
+  }
+}
+
+function decodeResult(result: unknown): ReplayResult {
+  if (!isObject(result) || !GAME_STATUSES.includes(result.status as GameStatus) ||
+    !isCount(result.level) || !isCount(result.turn) || typeof result.score !== 'number' || !Number.isFinite(result.score)) {
+    throw new ReplayError(`replay has an invalid result: ${JSON.stringify(result)}`);
+  }
+  return { status: result.status as GameStatus, level: result.level, turn: result.turn, score: result.score };
+}
+
+export function decodeReplay(text: string): Replay {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new ReplayError('replay is not valid JSON');
+  }
+  if (!isObject(file)) throw new ReplayError('replay must be an object');
+  if (file.v !== REPLAY_VERSION) throw new ReplayError(`unsupported replay version ${JSON.stringify(file.v)}`);
+  if (typeof file.w !== 'number' || typeof file.h !== 'number' || !(file.w > 0) || !(file.h > 0)) {
+    throw new ReplayError('replay is missing its screen size');
+  }
+  if (!Array.isArray(file.e)) throw new ReplayError('replay has no event list');
+
+  const replay: Replay = {
+    width: file.w,
+    height: file.h,
+    start: decodeStart(file.start),
+    events: file.e.map(unpackEvent)
+  };
+  if (file.r !== undefined) replay.result = decodeResult(file.r);
+  return replay;
+}
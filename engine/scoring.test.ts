@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import levelsData from '../levels.json';
+import { createConfig } from './config';
+import { advance, canLaunch, continueCampaign, startGame } from './engine';
+import { loadLevels } from './levels';
+import { createRng, nextFloat } from './random';
+import {
+  breakdownItems, breakdownTotal, CLEAR_BONUS, comboBonus, comboMultiplier, EMPTY_BREAKDOWN, MAX_COMBO_MULTIPLIER,
+  multiBreakBonus, MULTI_BREAK_MIN, underParBonus, UNDER_PAR_POINTS
+} from './scoring';
+
+test('combos grow by half a brick per link up to the cap', () => {
+  assert.equal(comboMultiplier(1), 1);
+  assert.equal(comboMultiplier(2), 1.5);
+  assert.equal(comboMultiplier(3), 2);
+  assert.equal(comboMultiplier(100), MAX_COMBO_MULTIPLIER);
+  assert.equal(comboBonus(4, 1), 0);
+  assert.equal(comboBonus(4, 3), 4);
+});
+
+test('turn and level bonuses', () => {
+  assert.equal(multiBreakBonus(MULTI_BREAK_MIN - 1), 0);
+  assert.equal(multiBreakBonus(MULTI_BREAK_MIN + 2), 3);
+  assert.equal(underParBonus(2, 5), 3 * UNDER_PAR_POINTS);
+  assert.equal(underParBonus(5, 5), 0);
+  assert.equal(underParBonus(1, null), 0);
+});
+
+test('bricks are always listed and other items only once earned', () => {
+  assert.deepEqual(breakdownItems(EMPTY_BREAKDOWN), [{ label: 'Bricks', points: 0 }]);
+  assert.deepEqual(
+    breakdownItems({ ...EMPTY_BREAKDOWN, bricks: 9, clear: CLEAR_BONUS }).map(item => item.label),
+    ['Bricks', 'Clear bonus']
+  );
+});
+
+test('the breakdown adds up to the score through a whole campaign run', () => {
+  const levels = loadLevels(levelsData);
+  const rng = createRng('scoring');
+  let state = startGame(createConfig(390, 844), levels, { kind: 'campaign', level: 1 });
+  for (let frame = 0; frame < 50000; frame++) {
+    if (state.status === 'won' && state.mode === 'campaign') {
+      state = continueCampaign(state, levels, 1);
+    }
+    if (state.status !== 'playing' || state.mode !== 'campaign') break;
+    const input = canLaunch(state) ? { launch: { angle: -Math.PI * (0.1 + nextFloat(rng) * 0.8) } } : {};
+    state = advance(state, 16, input);
+    assert.equal(state.startScore + breakdownTotal(state.breakdown), state.score);
+  }
+  assert.ok(state.score > 0);
+});
@@ -0,0 +1,63 @@
+// Where a level's points came from. Every point scored lands in exactly one of
+// these, so they always add up to the points scored in the level.
+export interface ScoreBreakdown {
+  // Base points of the bricks broken
+  bricks: number;
+  // Extra for breaking several bricks with one ball before it reaches the floor
+  combo: number;
+  // Extra for breaking many bricks in one turn
+  multiBreak: number;
+  // Awarded on a win for each turn to spare under par
+  underPar: number;
+  // Awarded on a win
+  clear: number;
+}
+
+export const EMPTY_BREAKDOWN: ScoreBreakdown = { bricks: 0, combo: 0, multiBreak: 0, underPar: 0, clear: 0 };
+
+// Each brick after the first in a ball's chain is worth half its points more
+// than the one before, up to triple.
+export const COMBO_STEP = 0.5;
+export const MAX_COMBO_MULTIPLIER = 3;
+// A turn that breaks at least MULTI_BREAK_MIN bricks earns MULTI_BREAK_POINTS
+// for that brick and each one after it
+export const MULTI_BREAK_MIN = 5;
+export const MULTI_BREAK_POINTS = 1;
+export const UNDER_PAR_POINTS = 10;
+export const CLEAR_BONUS = 25;
+
+export function comboMultiplier(chain: number): number {
+  return Math.min(MAX_COMBO_MULTIPLIER, 1 + COMBO_STEP * Math.max(0, chain - 1));
+}
+
+// Combo points for a brick worth `points` broken as the `chain`th in a row
+export function comboBonus(points: number, chain: number): number {
+  return Math.round(points * (comboMultiplier(chain) - 1));
+}
+
+export function multiBreakBonus(breaks: number): number {
+  return breaks >= MULTI_BREAK_MIN ? (breaks - MULTI_BREAK_MIN + 1) * MULTI_BREAK_POINTS : 0;
+}
+
+export function underParBonus(turns: number, par: number | null): number {
+  return par !== null && turns < par ? (par - turns) * UNDER_PAR_POINTS : 0;
+}
+
+export function breakdownTotal(breakdown: ScoreBreakdown): number {
+  return breakdown.bricks + breakdown.combo + breakdown.multiBreak + breakdown.underPar + breakdown.clear;
+}
+
+const LABELS: [keyof ScoreBreakdown, string][] = [
+  ['bricks', 'Bricks'],
+  ['combo', 'Combos'],
+  ['multiBreak', 'Multi-break'],
+  ['underPar', 'Under par'],
+  ['clear', 'Clear bonus']
+];
+
+// Line items for display. Bricks are always listed, bonuses only once earned.
+export function breakdownItems(breakdown: ScoreBreakdown): { label: string; points: number }[] {
+  return LABELS
+    .filter(([key]) => key === 'bricks' || breakdown[key] > 0)
+    .map(([key, label]) => ({ label, points: breakdown[key] }));
+}
@@ -0,0 +1,36 @@
+import { Brick } from './types';
+
+export type Point = [number, number];
+
+// Triangle bricks are named after the corner holding the right angle:
+// tr1 top-left, tr2 top-right, tr3 bottom-left, tr4 bottom-right. The
+// hypotenuse runs between the two neighbouring corners.
+export function brickPolygon(brick: Brick): Point[] | null {
+  const left = brick.x;
+  const right = brick.x + brick.width;
+  const top = brick.y;
+  const bottom = brick.y + brick.height;
+
+  switch (brick.shape) {
+    case 'tr1':
+      return [[left, top], [right, top], [left, bottom]];
+    case 'tr2':
+      return [[left, top], [right, top], [right, bottom]];
+    case 'tr3':
+      return [[left, top], [right, bottom], [left, bottom]];
+    case 'tr4':
+      return [[right, top], [right, bottom], [left, bottom]];
+    default:
+      return null;
+  }
+}
+
+// Circle bricks are centered in their cell and as large as the shorter side allows.
+export function brickCircle(brick: Brick): { cx: number; cy: number; radius: number } | null {
+  if (brick.shape !== 'circle') return null;
+  return {
+    cx: brick.x + brick.width / 2,
+    cy: brick.y + brick.height / 2,
+    radius: Math.min(brick.width, brick.height) / 2
+  };
+}
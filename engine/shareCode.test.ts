@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import levelsData from '../levels.json';
+import { loadLevels } from './levels';
+import { decodeLevel, encodeLevel, SHARE_CODE_VERSION, ShareCodeError } from './shareCode';
+import { BRICK_SHAPES, BrickDefinition, LevelDefinition } from './types';
+
+// Share codes only carry the grid
+function grid(level: LevelDefinition): LevelDefinition {
+  return level.columns !== undefined ? { columns: level.columns, rows: level.rows } : { rows: level.rows };
+}
+
+function brick(overrides: Partial<BrickDefinition> = {}): BrickDefinition {
+  return { shape: 'sqr', hits: 1, color: '#000000', points: 1, ...overrides };
+}
+
+// Exercises every header bit: each shape, empty cells, palette and custom
+// colors, non-integer points, givesBall absent, false and true, power-ups and
+// an explicit column count
+const EVERYTHING: LevelDefinition = {
+  columns: 9,
+  rows: [
+    BRICK_SHAPES.map((shape, i) => brick({ shape, hits: i + 1 })),
+    [null, brick({ color: '#a0a0a0' }), null, brick({ color: '#123abc' }), brick({ color: '#12345678' })],
+    [brick({ points: 2.5 }), brick({ points: 0 }), brick({ points: 1000 }), brick({ hits: 300 })],
+    [brick({ givesBall: false }), brick({ givesBall: true }), brick()],
+    [brick({ powerUp: 'laserRow' }), brick({ powerUp: 'split', color: '#fedcba', points: 0.5, givesBall: false })]
+  ]
+};
+
+function toBytes(code: string): number[] {
+  return [...Buffer.from(code, 'base64url')];
+}
+
+function fromBytes(bytes: number[]): string {
+  return Buffer.from(bytes).toString('base64url');
+}
+
+function withChecksum(payload: number[]): number[] {
+  let a = 0;
+  let b = 0;
+  for (const byte of payload) {
+    a = (a + byte) % 255;
+    b = (b + a) % 255;
+  }
+  return [...payload, b, a];
+}
+
+test('every campaign level round-trips through a share code', () => {
+  loadLevels(levelsData).forEach(level => {
+    assert.deepEqual(decodeLevel(encodeLevel(level)), grid(level));
+  });
+});
+
+test('a level using every cell feature round-trips exactly', () => {
+  assert.deepEqual(decodeLevel(encodeLevel(EVERYTHING)), EVERYTHING);
+  const { columns, ...withoutColumns } = EVERYTHING;
+  assert.deepEqual(decodeLevel(encodeLevel(withoutColumns)), withoutColumns);
+});
+
+test('a code with any one character changed is rejected', () => {
+  const code = encodeLevel(EVERYTHING);
+  // The last character may hold only padding bits, which decoding ignores
+  for (let i = 0; i < code.length - 1; i++) {
+    const changed = code.slice(0, i) + (code[i] === 'A' ? 'B' : 'A') + code.slice(i + 1);
+    assert.throws(() => decodeLevel(changed), ShareCodeError, `position ${i}`);
+  }
+  assert.throws(() => decodeLevel(`${code.slice(0, 5)}!${code.slice(6)}`), ShareCodeError);
+  assert.throws(() => decodeLevel(code.slice(0, -4)), ShareCodeError);
+});
+
+test('codes from another version are rejected', () => {
+  const payload = toBytes(encodeLevel(EVERYTHING)).slice(0, -2);
+  payload[0] = SHARE_CODE_VERSION + 1;
+  assert.throws(
+    () => decodeLevel(fromBytes(withChecksum(payload))),
+    new ShareCodeError(`unsupported code version ${SHARE_CODE_VERSION + 1}`)
+  );
+});
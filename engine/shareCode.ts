@@ -0,0 +1,215 @@
+import { loadLevel } from './levels';
+import { BRICK_SHAPES, BrickDefinition, BrickRow, LevelDefinition } from './types';
+
+// Share codes are a compact, URL-safe encoding of a level's grid:
+//
+//   version (1 byte) | flags (1 byte) | [columns] | row count | rows... | checksum (2 bytes)
+//
+// Numbers are unsigned LEB128 varints and the whole thing is base64url without
+// padding. Each cell starts with a header byte: bits 0-2 hold the shape index
+// plus one (0 = empty cell), bits 3-4 the givesBall flag (absent/false/true),
+// bit 5 marks a color outside the palette, bit 6 points that are not a whole
+// number and bit 7 a power-up. Those three are stored as length-prefixed
+// strings, so any valid level round-trips exactly.
+export const SHARE_CODE_VERSION = 1;
+
+// Palette for version 1 codes. Only ever append to it: existing codes refer to
+// colors by index.
+const PALETTE = ['#000000', '#202020', '#404040', '#606060', '#808080', '#a0a0a0', '#e8e8e8', '#ffffff'];
+
+const FLAG_COLUMNS = 1;
+const CELL_CUSTOM_COLOR = 1 << 5;
+const CELL_RAW_POINTS = 1 << 6;
+const CELL_POWER_UP = 1 << 7;
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+export class ShareCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareCodeError';
+  }
+}
+
+// ----------------- BYTES -----------------
+function toBase64Url(bytes: number[]): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    const chars = Math.min(4, Math.ceil(((bytes.length - i) * 8) / 6));
+    for (let j = 0; j < chars; j++) {
+      out += ALPHABET[(n >> (18 - 6 * j)) & 63];
+    }
+  }
+  return out;
+}
+
+function fromBase64Url(code: string): number[] {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of code) {
+    const value = ALPHABET.indexOf(char);
+    if (value < 0) throw new ShareCodeError(`invalid character ${JSON.stringify(char)}`);
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return bytes;
+}
+
+// Fletcher-16 over the payload
+function checksum(bytes: number[]): number {
+  let a = 0;
+  let b = 0;
+  for (const byte of bytes) {
+    a = (a + byte) % 255;
+    b = (b + a) % 255;
+  }
+  return (b << 8) | a;
+}
+
+function writeVarint(out: number[], value: number) {
+  let v = value;
+  while (v >= 0x80) {
+    out.push((v & 0x7f) | 0x80);
+    v = Math.floor(v / 128);
+  }
+  out.push(v);
+}
+
+function writeString(out: number[], value: string) {
+  const codes = Array.from(value, char => char.codePointAt(0) ?? 0);
+  writeVarint(out, codes.length);
+  codes.forEach(code => writeVarint(out, code));
+}
+
+class Reader {
+  private pos = 0;
+
+  constructor(private bytes: number[]) {}
+
+  byte(): number {
+    if (this.pos >= this.bytes.length) throw new ShareCodeError('code is truncated');
+    return this.bytes[this.pos++];
+  }
+
+  varint(): number {
+    let value = 0;
+    let factor = 1;
+    for (;;) {
+      const byte = this.byte();
+      value += (byte & 0x7f) * factor;
+      if (byte < 0x80) return value;
+      factor *= 128;
+    }
+  }
+
+  string(): string {
+    const length = this.varint();
+    return String.fromCodePoint(...Array.from({ length }, () => this.varint()));
+  }
+
+  done(): boolean {
+    return this.pos === this.bytes.length;
+  }
+}
+
+// ----------------- ENCODE / DECODE -----------------
+function encodeCell(out: number[], cell: BrickDefinition | null) {
+  if (!cell) {
+    out.push(0);
+    return;
+  }
+
+  const paletteIndex = PALETTE.indexOf(cell.color);
+  const rawPoints = !Number.isInteger(cell.points);
+  const givesBall = cell.givesBall === undefined ? 0 : cell.givesBall ? 2 : 1;
+  out.push(
+    (BRICK_SHAPES.indexOf(cell.shape) + 1) |
+    (givesBall << 3) |
+    (paletteIndex < 0 ? CELL_CUSTOM_COLOR : 0) |
+    (rawPoints ? CELL_RAW_POINTS : 0) |
+    (cell.powerUp !== undefined ? CELL_POWER_UP : 0)
+  );
+  writeVarint(out, cell.hits);
+  if (rawPoints) writeString(out, String(cell.points));
+  else writeVarint(out, cell.points);
+  if (paletteIndex < 0) writeString(out, cell.color);
+  else out.push(paletteIndex);
+  if (cell.powerUp !== undefined) writeString(out, cell.powerUp);
+}
+
+function decodeCell(reader: Reader): BrickDefinition | null {
+  const header = reader.byte();
+  const shapeIndex = header & 7;
+  if (shapeIndex === 0) return null;
+
+  const shape = BRICK_SHAPES[shapeIndex - 1];
+  if (!shape) throw new ShareCodeError(`unknown shape index ${shapeIndex}`);
+  const hits = reader.varint();
+  const points = header & CELL_RAW_POINTS ? Number(reader.string()) : reader.varint();
+  let color: string;
+  if (header & CELL_CUSTOM_COLOR) {
+    color = reader.string();
+  } else {
+    const index = reader.byte();
+    if (index >= PALETTE.length) throw new ShareCodeError(`unknown palette color ${index}`);
+    color = PALETTE[index];
+  }
+
+  const cell: BrickDefinition = { shape, hits, color, points };
+  const givesBall = (header >> 3) & 3;
+  if (givesBall) cell.givesBall = givesBall === 2;
+  if (header & CELL_POWER_UP) cell.powerUp = reader.string();
+  return cell;
+}
+
+// Encodes a level's grid (`rows` and, if set, `columns`). Other level settings
+// are not part of the code.
+export function encodeLevel(level: LevelDefinition): string {
+  const out: number[] = [SHARE_CODE_VERSION, level.columns !== undefined ? FLAG_COLUMNS : 0];
+  if (level.columns !== undefined) writeVarint(out, level.columns);
+  writeVarint(out, level.rows.length);
+  level.rows.forEach(row => {
+    writeVarint(out, row.length);
+    row.forEach(cell => encodeCell(out, cell));
+  });
+
+  const sum = checksum(out);
+  out.push(sum >> 8, sum & 0xff);
+  return toBase64Url(out);
+}
+
+// Decodes and validates a share code. Throws ShareCodeError for damaged or
+// unsupported codes and LevelValidationError if the board itself is invalid.
+export function decodeLevel(code: string): LevelDefinition {
+  const bytes = fromBase64Url(code.trim());
+  if (bytes.length < 4) throw new ShareCodeError('code is too short');
+
+  const payload = bytes.slice(0, -2);
+  const expected = (bytes[bytes.length - 2] << 8) | bytes[bytes.length - 1];
+  if (checksum(payload) !== expected) throw new ShareCodeError('checksum mismatch, the code may be mistyped');
+
+  const reader = new Reader(payload);
+  const version = reader.byte();
+  if (version !== SHARE_CODE_VERSION) throw new ShareCodeError(`unsupported code version ${version}`);
+
+  const flags = reader.byte();
+  const level: LevelDefinition = { rows: [] };
+  if (flags & FLAG_COLUMNS) level.columns = reader.varint();
+
+  const rowCount = reader.varint();
+  for (let r = 0; r < rowCount; r++) {
+    const length = reader.varint();
+    const row: BrickRow = [];
+    for (let c = 0; c < length; c++) row.push(decodeCell(reader));
+    level.rows.push(row);
+  }
+  if (!reader.done()) throw new ShareCodeError('unexpected data after the last row');
+
+  return loadLevel(level, 'code');
+}
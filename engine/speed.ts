@@ -0,0 +1,22 @@
+import { GameState } from './types';
+
+// Fast-forward settings the player can cycle through
+export const SPEEDS = [1, 2, 4] as const;
+export type Speed = typeof SPEEDS[number];
+
+// A turn still running after this much simulated time speeds up to 2x, and to
+// 4x after twice as long, so the last few balls never take forever to come back.
+export const AUTO_SPEEDUP_AFTER_MS = 8000;
+
+export function nextSpeed(speed: Speed): Speed {
+  return SPEEDS[(SPEEDS.indexOf(speed) + 1) % SPEEDS.length];
+}
+
+// How fast to run the simulation this frame: the player's choice, raised by the
+// automatic speed-up when it is on and the turn has run long.
+export function simulationSpeed(state: GameState, chosen: Speed, auto: boolean): Speed {
+  if (!auto || !state.turnActive) return chosen;
+  const elapsed = state.time - state.turnStartTime;
+  const autoSpeed: Speed = elapsed >= AUTO_SPEEDUP_AFTER_MS * 2 ? 4 : elapsed >= AUTO_SPEEDUP_AFTER_MS ? 2 : 1;
+  return Math.max(chosen, autoSpeed) as Speed;
+}
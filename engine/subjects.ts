@@ -0,0 +1,153 @@
+import { SubjectOption } from '../dummyFacts';
+import { formatIssue, isObject, LevelIssue } from './levels';
+
+// Subject packs are JSON files of extra trivia subjects, in the same shape as
+// PRESET_SUBJECTS:
+//
+//   { "subjects": [{ "id": "...", "name": "...", "dummyFacts": [...], "questions": [...] }] }
+//
+// They are checked the same way level files are, with issues reported by path.
+export interface SubjectPack {
+  subjects: SubjectOption[];
+}
+
+export type SubjectIssue = LevelIssue;
+
+// Longer facts no longer fit the end-of-level dialog
+export const MAX_FACT_LENGTH = 400;
+
+const ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+export class SubjectPackError extends Error {
+  issues: SubjectIssue[];
+
+  constructor(issues: SubjectIssue[]) {
+    super(`Invalid subject pack:\n${issues.map(formatIssue).join('\n')}`);
+    this.name = 'SubjectPackError';
+    this.issues = issues;
+  }
+}
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+function validateQuestion(question: unknown, path: string, issues: SubjectIssue[]) {
+  const error = (field: string, message: string) =>
+    issues.push({ severity: 'error', path: `${path}.${field}`, message });
+
+  if (!isObject(question)) {
+    issues.push({ severity: 'error', path, message: 'question must be an object' });
+    return;
+  }
+
+  if (question.kind === 'trueFalse') {
+    if (!isText(question.statement)) error('statement', 'must be a non-empty string');
+    if (typeof question.answer !== 'boolean') error('answer', `must be true or false, got ${JSON.stringify(question.answer)}`);
+    return;
+  }
+  if (question.kind !== 'choice') {
+    error('kind', `unknown kind ${JSON.stringify(question.kind)}, expected choice or trueFalse`);
+    return;
+  }
+
+  if (!isText(question.prompt)) error('prompt', 'must be a non-empty string');
+  if (!isText(question.answer)) error('answer', 'must be a non-empty string');
+  if (question.wrongAnswers === undefined) return;
+  if (!Array.isArray(question.wrongAnswers) || !question.wrongAnswers.every(isText)) {
+    error('wrongAnswers', 'must be an array of non-empty strings');
+  } else if (question.wrongAnswers.includes(question.answer as string)) {
+    error('wrongAnswers', `includes the right answer ${JSON.stringify(question.answer)}`);
+  }
+}
+
+function validateSubject(subject: unknown, path: string, issues: SubjectIssue[]) {
+  const error = (field: string, message: string) =>
+    issues.push({ severity: 'error', path: `${path}.${field}`, message });
+
+  if (!isObject(subject)) {
+    issues.push({ severity: 'error', path, message: 'subject must be an object' });
+    return;
+  }
+
+  if (typeof subject.id !== 'string' || !ID_PATTERN.test(subject.id)) {
+    error('id', `must be lowercase words joined by dashes, like "deep-sea", got ${JSON.stringify(subject.id)}`);
+  }
+  if (!isText(subject.name)) error('name', 'must be a non-empty string');
+
+  if (!Array.isArray(subject.dummyFacts)) {
+    error('dummyFacts', 'must be an array of facts');
+  } else if (subject.dummyFacts.length === 0) {
+    error('dummyFacts', 'subject has no facts');
+  } else {
+    const seen = new Set<unknown>();
+    subject.dummyFacts.forEach((fact, index) => {
+      const factPath = `${path}.dummyFacts[${index}]`;
+      if (!isText(fact)) {
+        issues.push({ severity: 'error', path: factPath, message: 'fact must be a non-empty string' });
+      } else if (fact.length > MAX_FACT_LENGTH) {
+        issues.push({ severity: 'error', path: factPath, message: `fact is ${fact.length} characters, at most ${MAX_FACT_LENGTH} fit` });
+      } else if (seen.has(fact)) {
+        issues.push({ severity: 'warning', path: factPath, message: 'same fact appears earlier in the subject' });
+      }
+      seen.add(fact);
+    });
+  }
+
+  if (subject.questions !== undefined) {
+    if (!Array.isArray(subject.questions)) {
+      error('questions', 'must be an array of questions');
+    } else {
+      subject.questions.forEach((question, index) => validateQuestion(question, `${path}.questions[${index}]`, issues));
+    }
+  }
+}
+
+// Checks a pack's content. `takenIds` are subject ids already in use, such as
+// the presets', which the pack may not reuse.
+export function validateSubjectPack(data: unknown, takenIds: string[] = []): SubjectIssue[] {
+  if (!isObject(data) || !Array.isArray(data.subjects)) {
+    return [{ severity: 'error', path: 'subjects', message: 'expected an object with a subjects array' }];
+  }
+  if (data.subjects.length === 0) {
+    return [{ severity: 'warning', path: 'subjects', message: 'pack has no subjects' }];
+  }
+
+  const issues: SubjectIssue[] = [];
+  const ids = new Map<unknown, number>();
+  data.subjects.forEach((subject: unknown, index: number) => {
+    const path = `subjects[${index}]`;
+    validateSubject(subject, path, issues);
+    if (!isObject(subject) || typeof subject.id !== 'string') return;
+
+    const original = ids.get(subject.id);
+    if (original !== undefined) {
+      issues.push({ severity: 'error', path: `${path}.id`, message: `${JSON.stringify(subject.id)} is already used by subjects[${original}]` });
+    } else if (takenIds.includes(subject.id)) {
+      issues.push({ severity: 'error', path: `${path}.id`, message: `${JSON.stringify(subject.id)} is already used by a built-in subject` });
+    } else {
+      ids.set(subject.id, index);
+    }
+  });
+
+  return issues;
+}
+
+// Validates a pack against `takenIds` and returns its subjects, throwing a
+// SubjectPackError listing every error found. Warnings are not fatal.
+export function loadSubjectPack(data: unknown, takenIds: string[] = []): SubjectOption[] {
+  const errors = validateSubjectPack(data, takenIds).filter(issue => issue.severity === 'error');
+  if (errors.length > 0) {
+    throw new SubjectPackError(errors);
+  }
+  return (data as SubjectPack).subjects;
+}
+
+// The presets followed by each pack's subjects, in order. Later packs are
+// checked against every subject before them, so ids stay unique.
+export function mergeSubjects(presets: SubjectOption[], packs: unknown[]): SubjectOption[] {
+  return packs.reduce<SubjectOption[]>(
+    (subjects, pack) => [...subjects, ...loadSubjectPack(pack, subjects.map(subject => subject.id))],
+    presets
+  );
+}
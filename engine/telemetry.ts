@@ -0,0 +1,167 @@
+import { GameEventBus } from './events';
+import { isObject } from './levels';
+import { GameMode, GameStatus } from './types';
+
+// One record per turn played, for balancing: where players run out of room and
+// how often a level beats them. Exported as JSONL, one record per line.
+export interface TurnRecord {
+  // Identifies the app session, so turns from different runs never mix
+  session: string;
+  mode: GameMode;
+  level: number;
+  turn: number;
+  angle: number;
+  balls: number;
+  bricksDestroyed: number;
+  scoreDelta: number;
+  // Lowest solid brick's y relative to the loss line, null if none are left
+  lowestBrickY: number | null;
+  // 'playing' unless the turn won or lost the level
+  outcome: GameStatus;
+}
+
+export class TelemetryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TelemetryError';
+  }
+}
+
+// ----------------- RECORDING -----------------
+// Builds turn records from the game's events and hands each one to `onRecord`
+// as its turn ends. Returns a function that stops recording; a turn still in
+// progress then is dropped.
+export function recordTurns(bus: GameEventBus, session: string, onRecord: (record: TurnRecord) => void): () => void {
+  let current: (TurnRecord & { startScore: number }) | null = null;
+
+  const unsubscribe = [
+    bus.on('turnStarted', event => {
+      current = {
+        session,
+        mode: event.mode,
+        level: event.level,
+        turn: event.turn,
+        angle: event.angle,
+        balls: event.balls,
+        bricksDestroyed: 0,
+        scoreDelta: 0,
+        lowestBrickY: null,
+        outcome: 'playing',
+        startScore: event.score
+      };
+    }),
+    bus.on('brickDestroyed', () => {
+      if (current) current.bricksDestroyed++;
+    }),
+    bus.on('turnEnded', event => {
+      if (!current || current.turn !== event.turn || current.level !== event.level) return;
+      const { startScore, ...record } = current;
+      current = null;
+      onRecord({ ...record, scoreDelta: event.score - startScore, lowestBrickY: event.lowestBrickY, outcome: event.status });
+    })
+  ];
+
+  return () => unsubscribe.forEach(stop => stop());
+}
+
+// ----------------- FILE FORMAT -----------------
+export function encodeTelemetry(records: TurnRecord[]): string {
+  return records.map(record => JSON.stringify(record)).join('\n') + (records.length > 0 ? '\n' : '');
+}
+
+const GAME_MODES: GameMode[] = ['campaign', 'custom', 'endless'];
+const GAME_STATUSES: GameStatus[] = ['playing', 'won', 'lost'];
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isOneOf<T extends string>(values: T[], value: unknown): value is T {
+  return values.includes(value as T);
+}
+
+function decodeRecord(record: unknown): TurnRecord | null {
+  if (!isObject(record)) return null;
+  const { session, mode, level, turn, angle, balls, bricksDestroyed, scoreDelta, lowestBrickY, outcome } = record;
+  if (typeof session !== 'string' || !isOneOf(GAME_MODES, mode) || !isOneOf(GAME_STATUSES, outcome) ||
+    !isNumber(level) || !isNumber(turn) || !isNumber(angle) || !isNumber(balls) ||
+    !isNumber(bricksDestroyed) || !isNumber(scoreDelta) || (lowestBrickY !== null && !isNumber(lowestBrickY))) {
+    return null;
+  }
+  return { session, mode, level, turn, angle, balls, bricksDestroyed, scoreDelta, lowestBrickY, outcome };
+}
+
+// Parses a JSONL export, skipping blank lines. Throws a TelemetryError naming
+// the first line that is not a turn record.
+export function decodeTelemetry(text: string): TurnRecord[] {
+  const records: TurnRecord[] = [];
+  text.split('\n').forEach((line, index) => {
+    if (line.trim() === '') return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      throw new TelemetryError(`line ${index + 1} is not valid JSON`);
+    }
+    const record = decodeRecord(parsed);
+    if (!record) throw new TelemetryError(`line ${index + 1} is not a turn record`);
+    records.push(record);
+  });
+  return records;
+}
+
+// ----------------- AGGREGATION -----------------
+export interface LevelDifficulty {
+  // 'Level 3', 'Endless' or 'Custom'; daily boards count as custom
+  level: string;
+  // Attempts that ended in a win or a loss; abandoned ones are left out
+  attempts: number;
+  wins: number;
+  losses: number;
+  lossRate: number;
+  // Turns taken by a finished attempt
+  medianTurns: number;
+}
+
+function levelLabel(record: TurnRecord): string {
+  if (record.mode === 'endless') return 'Endless';
+  if (record.mode === 'custom') return 'Custom';
+  return `Level ${record.level}`;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Summarizes each level by how its attempts ended. The turn that wins or loses
+// a level closes an attempt, and its turn number says how long it took, so a
+// game resumed from a save still counts in full.
+export function levelDifficulty(records: TurnRecord[]): LevelDifficulty[] {
+  const finished = new Map<string, { turns: number[]; losses: number }>();
+
+  records.forEach(record => {
+    if (record.outcome === 'playing') return;
+    const label = levelLabel(record);
+    const stats = finished.get(label) ?? { turns: [], losses: 0 };
+    // Turns are numbered from 0
+    stats.turns.push(record.turn + 1);
+    if (record.outcome === 'lost') stats.losses++;
+    finished.set(label, stats);
+  });
+
+  const order = (label: string) => (label.startsWith('Level ') ? Number(label.slice(6)) : Infinity);
+  const levels = [...finished.keys()].sort((a, b) => order(a) - order(b) || a.localeCompare(b));
+  return levels.map(level => {
+    const { turns, losses } = finished.get(level)!;
+    return {
+      level,
+      attempts: turns.length,
+      wins: turns.length - losses,
+      losses,
+      lossRate: losses / turns.length,
+      medianTurns: median(turns)
+    };
+  });
+}
@@ -0,0 +1,36 @@
+import { tracePath } from './physics';
+import { Point } from './shapes';
+import { GameState } from './types';
+
+// Wall bounces shown by the 'full' preview before it gives up
+const FULL_PREVIEW_BOUNCES = 12;
+
+// Predicted path of a shot fired at `angle` from the current launch point, as
+// far as the level's preview setting allows: nothing, up to the first contact,
+// or through wall bounces to the first brick.
+export function previewPath(state: GameState, angle: number): Point[] {
+  const { preview } = state.rules;
+  if (preview === 'off') return [];
+  const maxBounces = preview === 'full' ? FULL_PREVIEW_BOUNCES : 0;
+  return tracePath(
+    state.launchX, state.config.launchY, Math.cos(angle), Math.sin(angle), state.bricks, state.config, maxBounces
+  );
+}
+
+// Evenly spaced points along a polyline, for drawing it dotted
+export function dotsAlong(path: Point[], spacing: number): Point[] {
+  const dots: Point[] = [];
+  let carry = spacing;
+  for (let i = 1; i < path.length; i++) {
+    const [ax, ay] = path[i - 1];
+    const [bx, by] = path[i];
+    const length = Math.hypot(bx - ax, by - ay);
+    if (length === 0) continue;
+    let along = spacing - carry;
+    for (; along <= length; along += spacing) {
+      dots.push([ax + ((bx - ax) * along) / length, ay + ((by - ay) * along) / length]);
+    }
+    carry = length - (along - spacing);
+  }
+  return dots;
+}
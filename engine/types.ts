@@ -0,0 +1,182 @@
+import { Rng } from './random';
+import { ScoreBreakdown } from './scoring';
+
+export const BRICK_SHAPES = ['sqr', 'tr1', 'tr2', 'tr3', 'tr4', 'circle'] as const;
+
+export type BrickShape = typeof BRICK_SHAPES[number];
+
+// How much of the predicted path to draw while aiming
+export const PREVIEW_MODES = ['off', 'firstBounce', 'full'] as const;
+
+export type PreviewMode = typeof PREVIEW_MODES[number];
+
+export interface Ball {
+  id: number;
+  x: number;
+  y: number;
+  dx: number;
+  dy: number;
+  launched: boolean;
+  // Hits dealt per contact when a power-up raised it above 1
+  damage?: number;
+  // Spawned by a power-up mid-turn and removed when the turn ends
+  temporary?: boolean;
+  // Bricks broken since the ball last touched the floor, for combos
+  chain?: number;
+}
+
+export interface Brick {
+  id: number;
+  shape: BrickShape;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  visible: boolean;
+  hits: number;
+  color: string;
+  points: number;
+  givesBall?: boolean;
+  // Name of the power-up in engine/powerUps.ts, with givesBall resolved to 'extraBall'
+  powerUp?: string;
+  // Copied from the power-up so the physics need not look it up
+  passThrough?: boolean;
+  // A pass-through power-up that fired this turn
+  triggered?: boolean;
+}
+
+// A brick entry as it appears in levels.json, once validated by engine/levels.ts
+export interface BrickDefinition {
+  shape: BrickShape;
+  hits: number;
+  color: string;
+  points: number;
+  givesBall?: boolean;
+  // A power-up registered in engine/powerUps.ts
+  powerUp?: string;
+}
+
+// A row of bricks; null leaves its grid cell empty
+export type BrickRow = (BrickDefinition | null)[];
+
+// New rows pushed in at the top every `every` turns, cycling through `rows`
+export interface SpawnRule {
+  every: number;
+  rows: BrickRow[];
+}
+
+// Lengths are in design units (see engine/config.ts); everything but `rows` is optional.
+export interface LevelDefinition {
+  name?: string;
+  ballCount?: number;
+  // How far bricks drop each turn
+  dropAmount?: number;
+  // Height of the loss line above the launch line
+  lossLine?: number;
+  brickHeight?: number;
+  // Grid width; defaults to the widest row
+  columns?: number;
+  par?: number;
+  // Points needed in this level for the third star
+  targetScore?: number;
+  // Aiming preview; defaults to 'full'
+  preview?: PreviewMode;
+  spawn?: SpawnRule;
+  rows: BrickRow[];
+}
+
+// A level's settings with defaults applied, in screen pixels
+export interface LevelRules {
+  name: string;
+  par: number | null;
+  targetScore: number | null;
+  preview: PreviewMode;
+  dropAmount: number;
+  lossLine: number;
+  columns: number;
+  brickWidth: number;
+  brickHeight: number;
+  spawn: SpawnRule | null;
+}
+
+export interface LevelFile {
+  levels: LevelDefinition[];
+}
+
+export interface GameConfig {
+  scale: number;
+  // Play field bounds: side walls at 0 and `width`, ceiling at `ceilingY`
+  width: number;
+  ceilingY: number;
+  launchY: number;
+  initialLaunchX: number;
+  lossLine: number;
+  ballRadius: number;
+  ballSpeed: number; // px per second
+  launchDelay: number; // ms between balls in a volley
+  brickMargin: number;
+  brickDropAmount: number;
+  initialBallCount: number;
+}
+
+export type GameStatus = 'playing' | 'won' | 'lost';
+
+// Campaign plays the levels in levels.json, custom plays one standalone level and
+// endless keeps generating rows until the bricks win.
+export type GameMode = 'campaign' | 'custom' | 'endless';
+
+export interface GameState {
+  config: GameConfig;
+  mode: GameMode;
+  level: number;
+  rules: LevelRules;
+  status: GameStatus;
+  balls: Ball[];
+  bricks: Brick[];
+  nextBrickId: number;
+  score: number;
+  // Score when the level began, and how the points scored since add up
+  startScore: number;
+  breakdown: ScoreBreakdown;
+  // Bricks broken so far this turn
+  turnBreaks: number;
+  ballCount: number;
+  turn: number;
+  // True from the moment a volley is fired until the turn has been resolved
+  turnActive: boolean;
+  // Simulation time the current volley was fired at
+  turnStartTime: number;
+  launchX: number;
+  // Where the first ball to come back this turn landed; the next launch point
+  returnX: number | null;
+  launchQueue: number[];
+  launchVelocity: { dx: number; dy: number };
+  launchCooldown: number;
+  // Floor bounces left from a shield power-up; cleared when the turn ends
+  shield: number;
+  // Seed of the run and the generator state, drawn from by endless mode and
+  // random power-ups
+  seed: number;
+  rng: Rng;
+  // Simulated time not yet consumed by a fixed step, in ms
+  accumulator: number;
+  time: number;
+  // Bumped by everything that changes what is on screen other than ball
+  // positions: bricks being hit, power-ups, launches and turns ending. Renderers
+  // only need to redraw the board when it moves.
+  revision: number;
+}
+
+// How a game was started, so it can be restarted or resumed the same way
+export type GameStart =
+  | { kind: 'campaign'; level: number }
+  | { kind: 'endless'; seed: number }
+  | { kind: 'daily'; date: string }
+  | { kind: 'custom'; level: LevelDefinition };
+
+export interface StepInput {
+  launch?: { angle: number };
+  // Cut the current turn short: balls in flight drop straight back and the
+  // turn resolves as usual
+  endTurn?: boolean;
+}
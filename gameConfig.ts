@@ -0,0 +1,22 @@
+import { Dimensions } from 'react-native';
+import levelsData from './levels.json';
+import subjectsData from './subjects.json';
+import { PRESET_SUBJECTS } from './dummyFacts';
+import { createConfig } from './engine/config';
+import { loadLevels } from './engine/levels';
+import { mergeSubjects } from './engine/subjects';
+
+// Screen-dependent engine config, the validated campaign levels and the trivia
+// subjects, shared by every screen
+const { width: deviceWidth, height: deviceHeight } = Dimensions.get('window');
+
+// Replays record these so the same config can be rebuilt anywhere
+export const SCREEN_WIDTH = deviceWidth;
+export const SCREEN_HEIGHT = deviceHeight;
+export const CONFIG = createConfig(SCREEN_WIDTH, SCREEN_HEIGHT);
+export const LEVELS = loadLevels(levelsData);
+// Built-in subjects plus the packs in subjects.json
+export const SUBJECTS = mergeSubjects(PRESET_SUBJECTS, [subjectsData]);
+
+export const HEADER_HEIGHT = 60 * CONFIG.scale;
+export const BOTTOM_CONTROLS_HEIGHT = 60 * CONFIG.scale;
@@ -0,0 +1,7 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { KeyValueStorage } from './storage';
+
+// Device-backed storage used by the app
+const appStorage: KeyValueStorage = AsyncStorage;
+
+export default appStorage;
@@ -0,0 +1,43 @@
+import { Stars } from '../engine/rating';
+import { KeyValueStorage, readJson, writeJson } from './storage';
+
+const STORAGE_KEY = 'ballblaster.daily';
+
+export interface DailyRecord {
+  attempts: number;
+  bestScore: number | null;
+  bestStars: Stars;
+}
+
+export type DailyRecords = Record<string, DailyRecord>;
+
+export function loadDailyRecords(storage: KeyValueStorage): Promise<DailyRecords> {
+  return readJson<DailyRecords>(storage, STORAGE_KEY, {});
+}
+
+export async function getDailyRecord(storage: KeyValueStorage, key: string): Promise<DailyRecord | null> {
+  const records = await loadDailyRecords(storage);
+  return records[key] ?? null;
+}
+
+// Counts an attempt at the challenge for `key` (a dailyKey date string).
+export async function markDailyAttempted(storage: KeyValueStorage, key: string): Promise<DailyRecord> {
+  const records = await loadDailyRecords(storage);
+  const record = records[key] ?? { attempts: 0, bestScore: null, bestStars: 0 };
+  records[key] = { ...record, attempts: record.attempts + 1 };
+  await writeJson(storage, STORAGE_KEY, records);
+  return records[key];
+}
+
+// Keeps the best score and star rating seen for `key`.
+export async function recordDailyResult(storage: KeyValueStorage, key: string, score: number, stars: Stars): Promise<DailyRecord> {
+  const records = await loadDailyRecords(storage);
+  const record = records[key] ?? { attempts: 1, bestScore: null, bestStars: 0 };
+  records[key] = {
+    attempts: record.attempts,
+    bestScore: record.bestScore === null ? score : Math.max(record.bestScore, score),
+    bestStars: Math.max(record.bestStars, stars) as Stars
+  };
+  await writeJson(storage, STORAGE_KEY, records);
+  return records[key];
+}
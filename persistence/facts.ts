@@ -0,0 +1,22 @@
+import { SubjectOption } from '../dummyFacts';
+import { drawFact, EMPTY_FACT_RECORD, FactRecord } from '../engine/facts';
+import { KeyValueStorage, readJson, writeJson } from './storage';
+
+const STORAGE_KEY = 'ballblaster.facts';
+
+// Keyed by subject id
+export type FactRecords = Record<string, FactRecord>;
+
+export function loadFactRecords(storage: KeyValueStorage): Promise<FactRecords> {
+  return readJson<FactRecords>(storage, STORAGE_KEY, {});
+}
+
+// Draws the next fact for `subject` and remembers it as seen.
+export async function showNextFact(storage: KeyValueStorage, subject: SubjectOption): Promise<string | null> {
+  const records = await loadFactRecords(storage);
+  const { fact, record } = drawFact(subject, records[subject.id] ?? EMPTY_FACT_RECORD);
+  if (fact !== null) {
+    await writeJson(storage, STORAGE_KEY, { ...records, [subject.id]: record });
+  }
+  return fact;
+}
@@ -0,0 +1,48 @@
+import { Stars } from '../engine/rating';
+import { KeyValueStorage, readJson, writeJson } from './storage';
+
+const STORAGE_KEY = 'ballblaster.progress';
+
+export interface LevelRecord {
+  bestScore: number;
+  bestStars: Stars;
+  bestTurns: number;
+}
+
+export interface Progress {
+  // Highest level number that can be played; level 1 is always open
+  unlocked: number;
+  // Keyed by level number
+  levels: Record<number, LevelRecord>;
+}
+
+const EMPTY_PROGRESS: Progress = { unlocked: 1, levels: {} };
+
+export function loadProgress(storage: KeyValueStorage): Promise<Progress> {
+  return readJson<Progress>(storage, STORAGE_KEY, EMPTY_PROGRESS);
+}
+
+// Records a cleared campaign level, keeping the best of each stat and unlocking the next level.
+export async function recordLevelCleared(
+  storage: KeyValueStorage,
+  level: number,
+  result: { score: number; turns: number; stars: Stars }
+): Promise<Progress> {
+  const progress = await loadProgress(storage);
+  const previous = progress.levels[level];
+  const next: Progress = {
+    unlocked: Math.max(progress.unlocked, level + 1),
+    levels: {
+      ...progress.levels,
+      [level]: previous
+        ? {
+          bestScore: Math.max(previous.bestScore, result.score),
+          bestStars: Math.max(previous.bestStars, result.stars) as Stars,
+          bestTurns: Math.min(previous.bestTurns, result.turns)
+        }
+        : { bestScore: result.score, bestStars: result.stars, bestTurns: result.turns }
+    }
+  };
+  await writeJson(storage, STORAGE_KEY, next);
+  return next;
+}
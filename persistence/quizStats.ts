@@ -0,0 +1,38 @@
+import { KeyValueStorage, readJson, writeJson } from './storage';
+
+const STORAGE_KEY = 'ballblaster.quizStats';
+
+export interface QuizStats {
+  answered: number;
+  correct: number;
+  skipped: number;
+}
+
+export const EMPTY_QUIZ_STATS: QuizStats = { answered: 0, correct: 0, skipped: 0 };
+
+// Keyed by subject id
+export type QuizStatsBySubject = Record<string, QuizStats>;
+
+// 'skipped' when the player passed on the question
+export type QuizOutcome = 'correct' | 'wrong' | 'skipped';
+
+export function loadQuizStats(storage: KeyValueStorage): Promise<QuizStatsBySubject> {
+  return readJson<QuizStatsBySubject>(storage, STORAGE_KEY, {});
+}
+
+export async function recordQuizOutcome(
+  storage: KeyValueStorage,
+  subjectId: string,
+  outcome: QuizOutcome
+): Promise<QuizStatsBySubject> {
+  const all = await loadQuizStats(storage);
+  const stats = all[subjectId] ?? EMPTY_QUIZ_STATS;
+  const updated = {
+    ...all,
+    [subjectId]: outcome === 'skipped'
+      ? { ...stats, skipped: stats.skipped + 1 }
+      : { ...stats, answered: stats.answered + 1, correct: stats.correct + (outcome === 'correct' ? 1 : 0) }
+  };
+  await writeJson(storage, STORAGE_KEY, updated);
+  return updated;
+}
@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createConfig } from '../engine/config';
+import { startGame } from '../engine/engine';
+import { createReplay } from '../engine/replay';
+import { GameStart, LevelDefinition } from '../engine/types';
+import {
+  clearSavedGame, deserializeGame, isResumable, loadSavedGame, SAVE_VERSION, saveGame, serializeGame
+} from './savedGame';
+import { MemoryStorage } from './storage';
+
+const LEVEL: LevelDefinition = {
+  rows: [[
+    { shape: 'sqr', hits: 2, color: '#000000', points: 1, givesBall: true },
+    { shape: 'sqr', hits: 1, color: '#404040', points: 1 }
+  ]]
+};
+const START: GameStart = { kind: 'campaign', level: 1 };
+
+function newGame() {
+  return startGame(createConfig(390, 844), [LEVEL], START);
+}
+
+test('a saved game loads back as it was saved', async () => {
+  const storage = new MemoryStorage();
+  const state = { ...newGame(), score: 12, startScore: 4 };
+  const replay = createReplay(390, 844, START);
+
+  await saveGame(storage, START, state, replay, 'space', undefined, 1000);
+  const saved = await loadSavedGame(storage);
+  // Fields left undefined don't survive JSON, so compare against what was written
+  const written = JSON.parse(JSON.stringify(state));
+  assert.deepEqual(saved, { savedAt: 1000, start: START, state: written, replay, subjectId: 'space' });
+
+  await clearSavedGame(storage);
+  assert.equal(await loadSavedGame(storage), null);
+});
+
+test('a version 1 save is migrated to the current version', () => {
+  const current = newGame();
+  const {
+    startScore, shield, turnStartTime, returnX, revision, breakdown, turnBreaks, ...v1State
+  } = { ...current, score: 30, startScore: 10 };
+  const { targetScore, preview, ...v1Rules } = current.rules;
+  const v1 = {
+    version: 1,
+    savedAt: 5,
+    start: START,
+    state: {
+      ...v1State,
+      rules: v1Rules,
+      bricks: current.bricks.map(({ powerUp, passThrough, ...brick }) => brick)
+    }
+  };
+
+  const saved = deserializeGame(JSON.stringify(v1));
+  assert.ok(saved);
+  assert.equal(saved.state.startScore, 30);
+  assert.equal(saved.state.rules.targetScore, null);
+  assert.equal(saved.state.rules.preview, 'full');
+  assert.equal(saved.state.shield, 0);
+  assert.equal(saved.state.returnX, null);
+  assert.equal(saved.state.revision, 0);
+  assert.equal(saved.state.turnBreaks, 0);
+  assert.deepEqual(saved.state.breakdown, { bricks: 0, combo: 0, multiBreak: 0, underPar: 0, clear: 0 });
+  assert.equal(saved.state.bricks[0].powerUp, 'extraBall');
+  assert.equal(saved.state.bricks[0].passThrough, false);
+  assert.equal(saved.state.bricks[1].powerUp, undefined);
+});
+
+test('unreadable, newer and finished saves are dropped', () => {
+  const state = newGame();
+  assert.equal(deserializeGame('not json'), null);
+  assert.equal(deserializeGame(JSON.stringify({ version: 1 })), null);
+  assert.equal(deserializeGame(JSON.stringify({ version: SAVE_VERSION + 1, start: START, state })), null);
+  assert.equal(deserializeGame(serializeGame(START, { ...state, turnActive: true }, 0)), null);
+  assert.equal(deserializeGame(serializeGame(START, { ...state, status: 'lost' }, 0)), null);
+});
+
+test('only a won campaign level is kept past the end of the level', () => {
+  const state = newGame();
+  assert.equal(isResumable(state), true);
+  assert.equal(isResumable({ ...state, status: 'won' }), true);
+  assert.equal(isResumable({ ...state, status: 'won', mode: 'custom' }), false);
+  assert.equal(isResumable({ ...state, status: 'lost' }), false);
+});
+
+test('a won level keeps the bonus round result so the question is not asked again', async () => {
+  const storage = new MemoryStorage();
+  const won = { ...newGame(), status: 'won' as const };
+
+  await saveGame(storage, START, won, undefined, 'space');
+  assert.equal((await loadSavedGame(storage))?.bonusBalls, undefined);
+
+  await saveGame(storage, START, won, undefined, 'space', 3);
+  assert.equal((await loadSavedGame(storage))?.bonusBalls, 3);
+  await saveGame(storage, START, won, undefined, 'space', 0);
+  assert.equal((await loadSavedGame(storage))?.bonusBalls, 0);
+
+  // A level still in play has no bonus round behind it
+  assert.equal(deserializeGame(serializeGame(START, newGame(), 0, undefined, 'space', 3))?.bonusBalls, undefined);
+});
@@ -0,0 +1,200 @@
+import { isObject } from '../engine/levels';
+import { Replay } from '../engine/replay';
+import { GameStart, GameState } from '../engine/types';
+import { KeyValueStorage } from './storage';
+
+const STORAGE_KEY = 'ballblaster.savedGame';
+
+// Bump when GameState changes shape and add a migration from the previous version.
+export const SAVE_VERSION = 7;
+
+interface SaveFile {
+  version: typeof SAVE_VERSION;
+  savedAt: number;
+  start: GameStart;
+  state: GameState;
+  replay?: Replay;
+  subjectId?: string | null;
+  bonusBalls?: number;
+}
+
+export interface SavedGame {
+  savedAt: number;
+  start: GameStart;
+  state: GameState;
+  // Recording of the game up to the save; missing for saves from before replays
+  replay?: Replay;
+  // Trivia subject picked for the run, null for none
+  subjectId?: string | null;
+  // Balls won in the bonus round after a won campaign level, once its question
+  // is answered; missing while the question is still to come
+  bonusBalls?: number;
+}
+
+// What every save version has in common. Migrations read anything else field
+// by field, and the result is checked once it reaches the current version.
+interface RawSave {
+  version: number;
+  state: Record<string, unknown>;
+  [field: string]: unknown;
+}
+
+function fields(value: unknown): Record<string, unknown> {
+  return isObject(value) ? value : {};
+}
+
+function numberOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' ? value : fallback;
+}
+
+// Upgrades older save files one version at a time, keyed by the version they upgrade from.
+const MIGRATIONS: Record<number, (save: RawSave) => RawSave> = {
+  // v2 tracks the score at the start of the level and an optional target score
+  1: save => ({
+    ...save,
+    version: 2,
+    state: {
+      ...save.state,
+      startScore: save.state.score,
+      rules: { ...fields(save.state.rules), targetScore: null }
+    }
+  }),
+  // v3 adds the floor shield power-up; older boards resolve givesBall to extraBall
+  2: save => ({
+    ...save,
+    version: 3,
+    state: {
+      ...save.state,
+      shield: 0,
+      bricks: Array.isArray(save.state.bricks)
+        ? save.state.bricks.map(brick =>
+          isObject(brick) && brick.givesBall ? { ...brick, powerUp: 'extraBall', passThrough: false } : brick
+        )
+        : save.state.bricks
+    }
+  }),
+  // v4 times each turn and remembers where its first ball came back
+  3: save => ({
+    ...save,
+    version: 4,
+    state: { ...save.state, turnStartTime: 0, returnX: null }
+  }),
+  // v5 adds the per-level aiming preview
+  4: save => ({
+    ...save,
+    version: 5,
+    state: { ...save.state, rules: { ...fields(save.state.rules), preview: 'full' } }
+  }),
+  // v6 counts board changes for the renderer
+  5: save => ({
+    ...save,
+    version: 6,
+    state: { ...save.state, revision: 0 }
+  }),
+  // v7 itemizes the level's score; points from before the upgrade count as bricks
+  6: save => ({
+    ...save,
+    version: 7,
+    state: {
+      ...save.state,
+      breakdown: {
+        bricks: numberOr(save.state.score, 0) - numberOr(save.state.startScore, 0),
+        combo: 0,
+        multiBreak: 0,
+        underPar: 0,
+        clear: 0
+      },
+      turnBreaks: 0
+    }
+  }),
+};
+
+export function serializeGame(
+  start: GameStart,
+  state: GameState,
+  savedAt: number,
+  replay?: Replay,
+  subjectId?: string | null,
+  bonusBalls?: number
+): string {
+  const file: SaveFile = { version: SAVE_VERSION, savedAt, start, state };
+  if (replay) file.replay = replay;
+  if (subjectId !== undefined) file.subjectId = subjectId;
+  if (bonusBalls !== undefined) file.bonusBalls = bonusBalls;
+  return JSON.stringify(file);
+}
+
+function looksLikeState(state: unknown): state is GameState {
+  return isObject(state) &&
+    isObject(state.config) &&
+    Array.isArray(state.balls) &&
+    Array.isArray(state.bricks) &&
+    typeof state.level === 'number' &&
+    typeof state.turn === 'number';
+}
+
+function looksLikeStart(start: unknown): start is GameStart {
+  return isObject(start) && typeof start.kind === 'string';
+}
+
+function looksLikeReplay(replay: unknown): replay is Replay {
+  return isObject(replay) &&
+    typeof replay.width === 'number' &&
+    typeof replay.height === 'number' &&
+    looksLikeStart(replay.start) &&
+    Array.isArray(replay.events);
+}
+
+// Games are saved at turn boundaries while in play, and at the Level Complete
+// dialog of a campaign level, where the run carries on into the next level.
+export function isResumable(state: GameState): boolean {
+  return !state.turnActive && (state.status === 'playing' || (state.status === 'won' && state.mode === 'campaign'));
+}
+
+// Returns null for anything unreadable, from a newer app version or not a
+// resumable game; a bad save is dropped rather than crashing the title screen.
+export function deserializeGame(raw: string): SavedGame | null {
+  let file: unknown;
+  try {
+    file = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!isObject(file) || typeof file.version !== 'number' || !isObject(file.state)) return null;
+
+  let save: RawSave = { ...file, version: file.version, state: file.state };
+  while (save.version < SAVE_VERSION) {
+    const migrate = MIGRATIONS[save.version];
+    if (!migrate) return null;
+    save = migrate(save);
+  }
+  if (save.version !== SAVE_VERSION || !looksLikeState(save.state) || !looksLikeStart(save.start)) return null;
+  if (!isResumable(save.state)) return null;
+
+  const saved: SavedGame = { savedAt: numberOr(save.savedAt, 0), start: save.start, state: save.state };
+  if (looksLikeReplay(save.replay)) saved.replay = save.replay;
+  if (typeof save.subjectId === 'string' || save.subjectId === null) saved.subjectId = save.subjectId;
+  if (typeof save.bonusBalls === 'number' && save.state.status === 'won') saved.bonusBalls = save.bonusBalls;
+  return saved;
+}
+
+export async function saveGame(
+  storage: KeyValueStorage,
+  start: GameStart,
+  state: GameState,
+  replay?: Replay,
+  subjectId?: string | null,
+  bonusBalls?: number,
+  now = Date.now()
+): Promise<void> {
+  await storage.setItem(STORAGE_KEY, serializeGame(start, state, now, replay, subjectId, bonusBalls));
+}
+
+export async function loadSavedGame(storage: KeyValueStorage): Promise<SavedGame | null> {
+  const raw = await storage.getItem(STORAGE_KEY);
+  return raw === null ? null : deserializeGame(raw);
+}
+
+export async function clearSavedGame(storage: KeyValueStorage): Promise<void> {
+  await storage.removeItem(STORAGE_KEY);
+}
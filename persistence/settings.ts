@@ -0,0 +1,20 @@
+import { AimMode } from '../engine/aiming';
+import { KeyValueStorage, readJson, writeJson } from './storage';
+
+const STORAGE_KEY = 'ballblaster.settings';
+
+export interface Settings {
+  aimMode: AimMode;
+}
+
+export const DEFAULT_SETTINGS: Settings = { aimMode: 'direct' };
+
+// Missing fields fall back to the defaults, so new settings need no migration.
+export async function loadSettings(storage: KeyValueStorage): Promise<Settings> {
+  const stored = await readJson<Partial<Settings>>(storage, STORAGE_KEY, {});
+  return { ...DEFAULT_SETTINGS, ...stored };
+}
+
+export async function saveSettings(storage: KeyValueStorage, settings: Settings): Promise<void> {
+  await writeJson(storage, STORAGE_KEY, settings);
+}
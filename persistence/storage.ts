@@ -0,0 +1,38 @@
+// Minimal async key-value store. AsyncStorage satisfies it on device; tests and
+// Node scripts can use MemoryStorage instead.
+export interface KeyValueStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export class MemoryStorage implements KeyValueStorage {
+  private items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+}
+
+// Reads a JSON value, falling back to `fallback` when the key is missing or unreadable.
+export async function readJson<T>(storage: KeyValueStorage, key: string, fallback: T): Promise<T> {
+  const raw = await storage.getItem(key);
+  if (raw === null) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export async function writeJson(storage: KeyValueStorage, key: string, value: unknown): Promise<void> {
+  await storage.setItem(key, JSON.stringify(value));
+}
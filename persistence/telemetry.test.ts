@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { decodeTelemetry, encodeTelemetry, TelemetryError, TurnRecord } from '../engine/telemetry';
+import { MemoryStorage } from './storage';
+import { loadTelemetry, TELEMETRY_CAP, TelemetryBuffer } from './telemetry';
+
+function turn(n: number): TurnRecord {
+  return {
+    session: 's1',
+    mode: 'campaign',
+    level: 1,
+    turn: n,
+    angle: -1.2,
+    balls: 5,
+    bricksDestroyed: 2,
+    scoreDelta: 3,
+    lowestBrickY: n === 0 ? null : -40,
+    outcome: 'playing'
+  };
+}
+
+test('turns are stored a batch at a time', async () => {
+  const storage = new MemoryStorage();
+  const buffer = new TelemetryBuffer(storage, 3);
+
+  buffer.add(turn(0));
+  buffer.add(turn(1));
+  await buffer.flush();
+  assert.equal((await loadTelemetry(storage)).length, 2);
+
+  buffer.add(turn(2));
+  buffer.add(turn(3));
+  assert.equal((await loadTelemetry(storage)).length, 2);
+  buffer.add(turn(4));
+  assert.deepEqual(await buffer.load(), [0, 1, 2, 3, 4].map(turn));
+});
+
+// Fails its first write, like AsyncStorage running into a transient error
+class FlakyStorage extends MemoryStorage {
+  failures = 1;
+
+  async setItem(key: string, value: string): Promise<void> {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error('storage unavailable');
+    }
+    return super.setItem(key, value);
+  }
+}
+
+test('a batch that fails to write does not stop later batches', async t => {
+  const errors = t.mock.method(console, 'error', () => {});
+  const storage = new FlakyStorage();
+  const buffer = new TelemetryBuffer(storage, 2);
+
+  buffer.add(turn(0));
+  buffer.add(turn(1));
+  buffer.add(turn(2));
+  buffer.add(turn(3));
+  await buffer.flush();
+
+  assert.deepEqual(await loadTelemetry(storage), [2, 3].map(turn));
+  assert.equal(errors.mock.callCount(), 1);
+});
+
+test('the stored log keeps only the newest turns', async () => {
+  const storage = new MemoryStorage();
+  const buffer = new TelemetryBuffer(storage, 500);
+  for (let n = 0; n < TELEMETRY_CAP + 10; n++) buffer.add(turn(n));
+
+  const stored = await buffer.load();
+  assert.equal(stored.length, TELEMETRY_CAP);
+  assert.equal(stored[0].turn, 10);
+});
+
+test('exports decode back to the same records', () => {
+  const records = [turn(0), { ...turn(1), outcome: 'won' as const }];
+  assert.deepEqual(decodeTelemetry(encodeTelemetry(records)), records);
+});
+
+test('lines that are not turn records are rejected by line number', () => {
+  const good = JSON.stringify(turn(0));
+  assert.throws(() => decodeTelemetry(`${good}\n{`), new TelemetryError('line 2 is not valid JSON'));
+  assert.throws(
+    () => decodeTelemetry(`${good}\n\n${JSON.stringify({ ...turn(1), mode: 'arcade' })}`),
+    new TelemetryError('line 3 is not a turn record')
+  );
+  assert.throws(
+    () => decodeTelemetry(JSON.stringify({ ...turn(1), balls: '5' })),
+    new TelemetryError('line 1 is not a turn record')
+  );
+});
@@ -0,0 +1,54 @@
+import { TurnRecord } from '../engine/telemetry';
+import { KeyValueStorage, readJson, writeJson } from './storage';
+
+const STORAGE_KEY = 'ballblaster.telemetry';
+
+// Turn records kept on the device; the oldest are dropped past this
+export const TELEMETRY_CAP = 2000;
+
+// Turns held in memory before they are written out. Each write rewrites the
+// whole log, so doing it every turn would cost a large JSON round trip per turn.
+export const TELEMETRY_BATCH = 25;
+
+export function loadTelemetry(storage: KeyValueStorage): Promise<TurnRecord[]> {
+  return readJson<TurnRecord[]>(storage, STORAGE_KEY, []);
+}
+
+export async function appendTelemetry(storage: KeyValueStorage, records: TurnRecord[]): Promise<void> {
+  const stored = await loadTelemetry(storage);
+  await writeJson(storage, STORAGE_KEY, [...stored, ...records].slice(-TELEMETRY_CAP));
+}
+
+// Collects turn records and appends them to the stored log a batch at a time.
+// Writes run one after another, so batches are never stored out of order. A
+// batch that fails to write is reported and dropped; later batches still go out.
+export class TelemetryBuffer {
+  private pending: TurnRecord[] = [];
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private storage: KeyValueStorage, private batchSize = TELEMETRY_BATCH) {}
+
+  add = (record: TurnRecord) => {
+    this.pending.push(record);
+    if (this.pending.length >= this.batchSize) this.flush();
+  };
+
+  // Writes whatever is pending; resolves once everything added so far is stored
+  // or dropped. Never rejects, so callers need not handle it
+  flush = (): Promise<void> => {
+    const records = this.pending;
+    this.pending = [];
+    if (records.length > 0) {
+      this.writing = this.writing
+        .then(() => appendTelemetry(this.storage, records))
+        .catch(err => console.error(`dropped ${records.length} telemetry record(s):`, err));
+    }
+    return this.writing;
+  };
+
+  // The stored log plus anything still pending
+  async load(): Promise<TurnRecord[]> {
+    await this.flush();
+    return loadTelemetry(this.storage);
+  }
+}
@@ -0,0 +1,73 @@
+// Usage: npm run bench [-- <ball count> ...]
+// Measures how long the simulation takes per 60 fps frame with 10, 100 and 500
+// balls (or the given counts) in flight. Every ball is fired at once over a
+// board of bricks that never break, so each measured frame carries the full
+// count. Both the in-place frame loop path (advance) and the copying step are
+// timed.
+import { createConfig } from '../engine/config';
+import { advance, canLaunch, startGame, step } from '../engine/engine';
+import { BrickRow, BrickShape, GameState, LevelDefinition } from '../engine/types';
+
+const FRAME_MS = 1000 / 60;
+const WARMUP_FRAMES = 60;
+const MEASURED_FRAMES = 600;
+
+const counts: number[] = process.argv.slice(2).map(Number);
+if (counts.length === 0) counts.push(10, 100, 500);
+if (counts.some(count => !Number.isInteger(count) || count <= 0)) {
+  console.error('usage: npm run bench -- [ball count ...]');
+  process.exit(1);
+}
+
+const SHAPES: BrickShape[] = ['sqr', 'circle', 'tr1', 'sqr', 'tr2', 'sqr', 'tr3', 'tr4'];
+
+function benchLevel(ballCount: number): LevelDefinition {
+  const row: BrickRow = SHAPES.map(shape => ({ shape, hits: 1000000, color: '#404040', points: 1 }));
+  return { name: 'Bench', ballCount, rows: [row, [], row, [], row, row] };
+}
+
+function newGame(ballCount: number): GameState {
+  // A phone-sized screen, with the whole volley leaving on the same tick
+  const config = { ...createConfig(390, 844), launchDelay: 0 };
+  return startGame(config, [], { kind: 'custom', level: benchLevel(ballCount) });
+}
+
+// Fires a new volley whenever the last one is back, alternating the angle
+function nextInput(state: GameState, frame: number) {
+  return canLaunch(state) ? { launch: { angle: frame % 2 === 0 ? -Math.PI / 3 : (-2 * Math.PI) / 3 } } : {};
+}
+
+interface Timing {
+  mean: number;
+  p95: number;
+  max: number;
+}
+
+function measure(ballCount: number, run: (state: GameState, dtMs: number, frame: number) => GameState): Timing {
+  let state = newGame(ballCount);
+  for (let frame = 0; frame < WARMUP_FRAMES; frame++) state = run(state, FRAME_MS, frame);
+
+  const times: number[] = [];
+  for (let frame = 0; frame < MEASURED_FRAMES; frame++) {
+    const started = performance.now();
+    state = run(state, FRAME_MS, frame);
+    times.push(performance.now() - started);
+  }
+  times.sort((a, b) => a - b);
+  return {
+    mean: times.reduce((sum, time) => sum + time, 0) / times.length,
+    p95: times[Math.floor(times.length * 0.95)],
+    max: times[times.length - 1]
+  };
+}
+
+const format = (timing: Timing) =>
+  `${timing.mean.toFixed(3).padStart(8)} ${timing.p95.toFixed(3).padStart(8)} ${timing.max.toFixed(3).padStart(8)}`;
+
+console.log(`ms per ${FRAME_MS.toFixed(1)} ms frame over ${MEASURED_FRAMES} frames`);
+console.log(`${'balls'.padStart(6)}  ${'advance: mean      p95      max'.padStart(33)}  ${'step: mean      p95      max'.padStart(30)}`);
+for (const count of counts) {
+  const inPlace = measure(count, (state, dtMs, frame) => advance(state, dtMs, nextInput(state, frame)));
+  const copying = measure(count, (state, dtMs, frame) => step(state, dtMs, nextInput(state, frame)));
+  console.log(`${String(count).padStart(6)}  ${format(inPlace).padStart(33)}  ${format(copying).padStart(30)}`);
+}
@@ -0,0 +1,29 @@
+// Usage: npm run lint:levels [-- path/to/levels.json ...]
+// Checks level files against the schema in engine/levels.ts. Exits non-zero if
+// any file has errors; warnings are printed but do not fail the run.
+import { readFileSync } from 'fs';
+import { formatIssue, validateLevelFile } from '../engine/levels';
+
+const files = process.argv.slice(2);
+if (files.length === 0) files.push('levels.json');
+
+let failed = false;
+for (const file of files) {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (err) {
+    console.error(`${file}: ${(err as Error).message}`);
+    failed = true;
+    continue;
+  }
+
+  const issues = validateLevelFile(data);
+  issues.forEach(issue => console.log(`${file}: ${formatIssue(issue)}`));
+
+  const errors = issues.filter(issue => issue.severity === 'error').length;
+  if (errors > 0) failed = true;
+  console.log(`${file}: ${errors} error(s), ${issues.length - errors} warning(s)`);
+}
+
+process.exit(failed ? 1 : 0);
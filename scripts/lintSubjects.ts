@@ -0,0 +1,39 @@
+// Usage: npm run lint:subjects [-- path/to/pack.json ...]
+// Checks subject packs against the schema in engine/subjects.ts. Each pack's
+// ids must not clash with the built-in subjects or an earlier pack's. Exits
+// non-zero if any file has errors; warnings are printed but do not fail the run.
+import { readFileSync } from 'fs';
+import { PRESET_SUBJECTS } from '../dummyFacts';
+import { formatIssue, isObject } from '../engine/levels';
+import { validateSubjectPack } from '../engine/subjects';
+
+const files = process.argv.slice(2);
+if (files.length === 0) files.push('subjects.json');
+
+const takenIds = PRESET_SUBJECTS.map(subject => subject.id);
+let failed = false;
+for (const file of files) {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (err) {
+    console.error(`${file}: ${(err as Error).message}`);
+    failed = true;
+    continue;
+  }
+
+  const issues = validateSubjectPack(data, takenIds);
+  issues.forEach(issue => console.log(`${file}: ${formatIssue(issue)}`));
+
+  const errors = issues.filter(issue => issue.severity === 'error').length;
+  if (errors > 0) failed = true;
+  console.log(`${file}: ${errors} error(s), ${issues.length - errors} warning(s)`);
+
+  if (isObject(data) && Array.isArray(data.subjects)) {
+    data.subjects.forEach((subject: unknown) => {
+      if (isObject(subject) && typeof subject.id === 'string') takenIds.push(subject.id);
+    });
+  }
+}
+
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,40 @@
+// Usage: npm run replay -- <replay.json> [more.json ...] [--levels path/to/levels.json]
+// Plays replay files headlessly against the campaign levels and prints how each
+// game ended. Exits non-zero if any replay goes out of sync or ends differently
+// from the result it recorded.
+import { readFileSync } from 'fs';
+import { formatIssue, LevelValidationError, loadLevels } from '../engine/levels';
+import { decodeReplay, runReplay } from '../engine/replay';
+
+const args = process.argv.slice(2);
+let levelsFile = 'levels.json';
+const levelsFlag = args.indexOf('--levels');
+if (levelsFlag >= 0) {
+  levelsFile = args[levelsFlag + 1];
+  args.splice(levelsFlag, 2);
+}
+if (args.length === 0) {
+  console.error('usage: npm run replay -- <replay.json> [more.json ...] [--levels levels.json]');
+  process.exit(1);
+}
+
+const levels = loadLevels(JSON.parse(readFileSync(levelsFile, 'utf8')));
+
+let failed = false;
+for (const file of args) {
+  try {
+    const replay = decodeReplay(readFileSync(file, 'utf8'));
+    const state = runReplay(replay, levels);
+    const verified = replay.result ? 'verified' : 'no recorded result to check';
+    console.log(`${file}: ${state.status} on ${state.rules.name}, turn ${state.turn}, score ${state.score} (${verified})`);
+  } catch (err) {
+    failed = true;
+    if (err instanceof LevelValidationError) {
+      err.issues.forEach(issue => console.error(`${file}: ${formatIssue(issue)}`));
+    } else {
+      console.error(`${file}: ${(err as Error).message}`);
+    }
+  }
+}
+
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,57 @@
+// Usage:
+//   npm run share-code -- encode [levels.json] [level number]   print share codes
+//   npm run share-code -- decode <code>                        print the level as JSON
+//   npm run share-code -- add <code> [levels.json]             append the level to a level file
+import { readFileSync, writeFileSync } from 'fs';
+import { formatIssue, LevelValidationError, loadLevels } from '../engine/levels';
+import { decodeLevel, encodeLevel } from '../engine/shareCode';
+
+function readLevels(file: string) {
+  return loadLevels(JSON.parse(readFileSync(file, 'utf8')));
+}
+
+function run(args: string[]) {
+  const [command, ...rest] = args;
+
+  switch (command) {
+    case 'encode': {
+      const [file = 'levels.json', levelNumber] = rest;
+      const levels = readLevels(file);
+      levels.forEach((level, index) => {
+        if (levelNumber === undefined || Number(levelNumber) === index + 1) {
+          console.log(`${index + 1}\t${encodeLevel(level)}`);
+        }
+      });
+      return;
+    }
+    case 'decode': {
+      const [code] = rest;
+      if (!code) throw new Error('decode needs a share code');
+      console.log(JSON.stringify(decodeLevel(code), null, 2));
+      return;
+    }
+    case 'add': {
+      const [code, file = 'levels.json'] = rest;
+      if (!code) throw new Error('add needs a share code');
+      const data = JSON.parse(readFileSync(file, 'utf8'));
+      readLevels(file);
+      data.levels.push(decodeLevel(code));
+      writeFileSync(file, JSON.stringify(data, null, 2) + '\n');
+      console.log(`Added level ${data.levels.length} to ${file}`);
+      return;
+    }
+    default:
+      throw new Error(`unknown command ${JSON.stringify(command)}, expected encode, decode or add`);
+  }
+}
+
+try {
+  run(process.argv.slice(2));
+} catch (err) {
+  if (err instanceof LevelValidationError) {
+    err.issues.forEach(issue => console.error(formatIssue(issue)));
+  } else {
+    console.error((err as Error).message);
+  }
+  process.exit(1);
+}
@@ -0,0 +1,37 @@
+// Usage: npm run telemetry -- <export.jsonl> [more.jsonl ...]
+// Aggregates turn logs exported from the app (EXPORT TELEMETRY on the title
+// screen of a debug build) into per-level difficulty: how many attempts were
+// finished, the loss rate and the median number of turns taken.
+import { readFileSync } from 'fs';
+import { decodeTelemetry, levelDifficulty, TurnRecord } from '../engine/telemetry';
+
+const files = process.argv.slice(2);
+if (files.length === 0) {
+  console.error('usage: npm run telemetry -- <export.jsonl> [more.jsonl ...]');
+  process.exit(1);
+}
+
+const records: TurnRecord[] = [];
+for (const file of files) {
+  try {
+    records.push(...decodeTelemetry(readFileSync(file, 'utf8')));
+  } catch (err) {
+    console.error(`${file}: ${(err as Error).message}`);
+    process.exit(1);
+  }
+}
+
+const stats = levelDifficulty(records);
+const sessions = new Set(records.map(record => record.session)).size;
+console.log(`${records.length} turn(s) from ${sessions} session(s)`);
+console.log(`${'level'.padEnd(12)}${'attempts'.padStart(10)}${'wins'.padStart(8)}${'losses'.padStart(8)}${'loss rate'.padStart(11)}${'median turns'.padStart(14)}`);
+stats.forEach(level => {
+  console.log(
+    level.level.padEnd(12) +
+    String(level.attempts).padStart(10) +
+    String(level.wins).padStart(8) +
+    String(level.losses).padStart(8) +
+    `${Math.round(level.lossRate * 100)}%`.padStart(11) +
+    String(level.medianTurns).padStart(14)
+  );
+});